@@ -0,0 +1,90 @@
+// Limit what the server may touch, beyond what is shared with the integration: the pages and
+// databases it may access (with everything under them), the ones among those that are read-only,
+// and tools that are turned off. Loaded from the JSON file named by NOTION_ACCESS_POLICY.
+
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import { Ancestry, normalizeId } from "./ancestry.js";
+import { ToolError } from "./toolErrors.js";
+
+const policySchema = z.object({
+	// Pages and databases the server may access; everything shared with the integration if omitted
+	roots: z.array(z.string()).optional(),
+	// Pages and databases that can be read but not changed
+	readOnlyRoots: z.array(z.string()).default([]),
+	// Refuse every change
+	readOnly: z.boolean().default(false),
+	// Tools that are hidden and refused, e.g. ["delete_block"]
+	disabledTools: z.array(z.string()).default([]),
+}).strict();
+
+export type PolicyConfig = z.infer<typeof policySchema>;
+
+export type Access = "read" | "write";
+
+export async function loadAccessPolicy(path: string): Promise<PolicyConfig> {
+	const result = policySchema.safeParse(JSON.parse(await readFile(path, "utf8")));
+	if (!result.success) {
+		throw new Error(`Invalid access policy ${path}: ${result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+	}
+	return result.data;
+}
+
+export class AccessPolicy {
+	private readonly roots?: Set<string>;
+	private readonly readOnlyRoots: Set<string>;
+
+	constructor(private readonly ancestry: Ancestry, private readonly config: PolicyConfig = policySchema.parse({})) {
+		this.roots = config.roots && new Set(config.roots.map(normalizeId));
+		this.readOnlyRoots = new Set(config.readOnlyRoots.map(normalizeId));
+	}
+
+	toolEnabled(name: string, access: Access): boolean {
+		return !this.config.disabledTools.includes(name) && !(access === "write" && this.config.readOnly);
+	}
+
+	assertToolEnabled(name: string, access: Access): void {
+		if (!this.toolEnabled(name, access)) {
+			const reason = this.config.disabledTools.includes(name) ? "is turned off" : "makes changes, and the server is read-only";
+			throw new ToolError("forbidden", `The ${name} tool ${reason}`, "The server's access policy (NOTION_ACCESS_POLICY) doesn't allow it.");
+		}
+	}
+
+	// The access the policy grants to a page, database or block, or undefined if it is out of scope
+	async accessTo(id: string): Promise<Access | undefined> {
+		if (!this.roots && this.readOnlyRoots.size === 0) {
+			return this.config.readOnly ? "read" : "write";
+		}
+		const chain = await this.ancestry.chain(id);
+		if (this.roots && !chain.some((ancestor) => this.roots!.has(ancestor))) {
+			return undefined;
+		}
+		return this.config.readOnly || chain.some((ancestor) => this.readOnlyRoots.has(ancestor)) ? "read" : "write";
+	}
+
+	async assertAccess(access: Access, ids: string[]): Promise<void> {
+		for (const id of ids) {
+			const granted = await this.accessTo(id);
+			if (!granted) {
+				throw new ToolError("forbidden", `${id} is outside the pages and databases this server may access`, "The server's access policy (NOTION_ACCESS_POLICY) only allows the pages and databases under its roots.");
+			}
+			if (access === "write" && granted === "read") {
+				throw new ToolError("forbidden", `${id} is read-only`, "The server's access policy (NOTION_ACCESS_POLICY) doesn't allow changes here.");
+			}
+		}
+	}
+
+	// The items (search results, changes, ...) the policy lets clients see
+	async visible<T extends { id: string }>(items: T[]): Promise<T[]> {
+		if (!this.roots) return items;
+		// One at a time, so items under the same parent share its lookups
+		const visible: T[] = [];
+		for (const item of items) {
+			this.ancestry.remember(item);
+			if (await this.accessTo(item.id)) {
+				visible.push(item);
+			}
+		}
+		return visible;
+	}
+}
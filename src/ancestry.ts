@@ -0,0 +1,92 @@
+// Follow the parent chain of pages, databases and blocks up to the workspace, to tell whether
+// something lies under a given page or database. Parents are cached for a few minutes, so a
+// page that was moved is placed correctly again soon after.
+
+import { Endpoint } from "./notionObjects.js";
+
+// The parts of the Notion client the walk uses, so it can run against a fake in tests
+export interface AncestryClient {
+	pages: { retrieve: Endpoint };
+	databases: { retrieve: Endpoint };
+	blocks: { retrieve: Endpoint };
+}
+
+// Parent hops before giving up
+const MAX_DEPTH = 25;
+
+export function normalizeId(id: string): string {
+	return id.replace(/-/g, "").toLowerCase();
+}
+
+export function parentId(object: any): string | null {
+	const parent = object.parent;
+	switch (parent?.type) {
+		case "page_id":
+			return parent.page_id;
+		case "database_id":
+			return parent.database_id;
+		case "block_id":
+			return parent.block_id;
+		default:
+			return null;
+	}
+}
+
+export class Ancestry {
+	// Normalized ID -> ID of its parent page, database or block (null at the workspace, or when
+	// the parent can't be read)
+	private parents = new Map<string, { parent: string | null; at: number }>();
+
+	constructor(
+		private readonly notion: AncestryClient,
+		private readonly maxAge = 5 * 60_000,
+		private readonly now: () => number = Date.now,
+	) {}
+
+	// Record an object's parent from an API response that is already at hand, saving a lookup
+	remember(object: any): void {
+		if (object?.id && object.parent) {
+			this.parents.set(normalizeId(object.id), { parent: parentId(object), at: this.now() });
+		}
+	}
+
+	/**
+	 * Normalized IDs from `id` itself up towards the workspace. The chain ends early at an
+	 * ancestor the integration can't read.
+	 */
+	async chain(id: string): Promise<string[]> {
+		const ids: string[] = [];
+		let current: string | null = id;
+		for (let depth = 0; current && depth < MAX_DEPTH; depth++) {
+			ids.push(normalizeId(current));
+			current = await this.parentOf(current);
+		}
+		return ids;
+	}
+
+	async isWithin(id: string, rootId: string): Promise<boolean> {
+		const target = normalizeId(rootId);
+		let current: string | null = id;
+		for (let depth = 0; current && depth < MAX_DEPTH; depth++) {
+			if (normalizeId(current) === target) return true;
+			current = await this.parentOf(current);
+		}
+		return false;
+	}
+
+	private async parentOf(id: string): Promise<string | null> {
+		const key = normalizeId(id);
+		const cached = this.parents.get(key);
+		if (cached && this.now() - cached.at < this.maxAge) {
+			return cached.parent;
+		}
+		// Blocks, pages and databases share one ID space; the first lookup that succeeds wins
+		const object = await this.notion.pages.retrieve({ page_id: id })
+			.catch(() => this.notion.databases.retrieve({ database_id: id }))
+			.catch(() => this.notion.blocks.retrieve({ block_id: id }))
+			.catch(() => null);
+		const parent = object ? parentId(object) : null;
+		this.parents.set(key, { parent, at: this.now() });
+		return parent;
+	}
+}
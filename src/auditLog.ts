@@ -0,0 +1,158 @@
+// An append-only record of every tool call: one JSON object per line with the tool, its arguments
+// (sanitized), the pages and databases it targeted, the IDs of the Notion requests it made, its
+// outcome and how long it took. When the file reaches `maxBytes` it is renamed to <file>.1 (older
+// files move up to .2, .3, ...), and only `maxFiles` rotated files are kept.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFile, mkdir, readFile, rename, rm, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+import { normalizeId } from "./ancestry.js";
+import { DryRunClient } from "./dryRun.js";
+
+export type AuditOutcome = "success" | "error" | "dry_run";
+
+export interface AuditEntry {
+	time: string;
+	tool: string;
+	// MCP session, for servers shared over HTTP
+	session?: string;
+	arguments: Record<string, unknown>;
+	targets: string[];
+	// The request_id of every Notion request the call made, for matching with Notion's logs
+	requestIds: string[];
+	outcome: AuditOutcome;
+	// The error code for failed calls (see toolErrors.ts)
+	error?: string;
+	durationMs: number;
+}
+
+export interface AuditQuery {
+	limit: number;
+	tool?: string;
+	outcome?: AuditOutcome;
+	since?: Date;
+	targetId?: string;
+}
+
+const SECRET_KEY = /token|secret|password|api_?key|authorization/i;
+const MAX_STRING = 200;
+
+// Arguments as logged: secrets redacted and long values (like page content) cut short
+export function sanitizeArguments(value: unknown, key = ""): any {
+	if (SECRET_KEY.test(key)) {
+		return "[redacted]";
+	}
+	if (typeof value === "string") {
+		return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}… (${value.length} characters)` : value;
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => sanitizeArguments(item));
+	}
+	if (value && typeof value === "object") {
+		return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, sanitizeArguments(item, name)]));
+	}
+	return value;
+}
+
+const activeRequestIds = new AsyncLocalStorage<string[]>();
+
+// Run `task`, collecting the request IDs of the Notion requests it makes through an AuditedClient
+export async function trackRequests<T>(task: () => Promise<T>): Promise<{ result: T; requestIds: string[] }> {
+	const requestIds: string[] = [];
+	const result = await activeRequestIds.run(requestIds, task);
+	return { result, requestIds };
+}
+
+// Notion puts the request ID in every response body, including error responses
+function requestIdOf(responseOrError: any): string | undefined {
+	if (typeof responseOrError?.request_id === "string") {
+		return responseOrError.request_id;
+	}
+	try {
+		return JSON.parse(responseOrError?.body ?? "null")?.request_id;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * A Notion client that notes the request ID of each request it sends inside trackRequests().
+ */
+export class AuditedClient extends DryRunClient {
+	override async request<ResponseBody>(args: Parameters<DryRunClient["request"]>[0]): Promise<ResponseBody> {
+		const requestIds = activeRequestIds.getStore();
+		try {
+			const response = await super.request<ResponseBody>(args);
+			const id = requestIdOf(response);
+			if (requestIds && id) requestIds.push(id);
+			return response;
+		} catch (error) {
+			const id = requestIdOf(error);
+			if (requestIds && id) requestIds.push(id);
+			throw error;
+		}
+	}
+}
+
+export class AuditLog {
+	// Writes and rotations happen one at a time, in order
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(private readonly path: string, private readonly maxBytes = 10 * 1024 * 1024, private readonly maxFiles = 5) {}
+
+	private rotatedPath(index: number): string {
+		return index === 0 ? this.path : `${this.path}.${index}`;
+	}
+
+	append(entry: AuditEntry): Promise<void> {
+		const line = JSON.stringify(entry) + "\n";
+		const write = this.queue.then(async () => {
+			await mkdir(dirname(this.path), { recursive: true });
+			const size = await stat(this.path).then((stats) => stats.size, () => 0);
+			if (size > 0 && size + Buffer.byteLength(line) > this.maxBytes) {
+				await this.rotate();
+			}
+			await appendFile(this.path, line, { mode: 0o600 });
+		});
+		// A failed write doesn't block later ones
+		this.queue = write.catch(() => undefined);
+		return write;
+	}
+
+	private async rotate(): Promise<void> {
+		await rm(this.rotatedPath(this.maxFiles), { force: true });
+		for (let index = this.maxFiles - 1; index >= 0; index--) {
+			await rename(this.rotatedPath(index), this.rotatedPath(index + 1)).catch((error) => {
+				if (error.code !== "ENOENT") throw error;
+			});
+		}
+	}
+
+	// Matching entries, newest first
+	async recent({ limit, tool, outcome, since, targetId }: AuditQuery): Promise<AuditEntry[]> {
+		const matches: AuditEntry[] = [];
+		for (let index = 0; index <= this.maxFiles && matches.length < limit; index++) {
+			let text: string;
+			try {
+				text = await readFile(this.rotatedPath(index), "utf8");
+			} catch (error: any) {
+				if (error.code === "ENOENT") continue;
+				throw error;
+			}
+
+			const lines = text.split("\n").filter(Boolean).reverse();
+			for (const line of lines) {
+				const entry: AuditEntry = JSON.parse(line);
+				if (since && new Date(entry.time) < since) {
+					return matches;
+				}
+				if ((tool && entry.tool !== tool) || (outcome && entry.outcome !== outcome) || (targetId && !entry.targets.some((id) => normalizeId(id) === normalizeId(targetId)))) {
+					continue;
+				}
+				matches.push(entry);
+				if (matches.length === limit) break;
+			}
+		}
+		return matches;
+	}
+}
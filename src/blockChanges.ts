@@ -0,0 +1,132 @@
+// Apply block edits through a journal so a failed multi-step update can be undone:
+// inserted blocks are deleted again, updated blocks get their old content back and
+// deleted blocks are un-archived (or recreated from their snapshot as a fallback).
+
+import { Client } from "@notionhq/client";
+import type { UpdateBlockParameters } from "@notionhq/client/build/src/api-endpoints.js";
+import { toBlockRequest } from "./blockRequests.js";
+import { appendBlocks, AppendResult, BlockWriteError } from "./blockWriter.js";
+import { NotionBlock } from "./blocksToMarkdown.js";
+
+type Change =
+	| { kind: "insert"; blockId: string }
+	| { kind: "update"; block: NotionBlock }
+	| { kind: "delete"; block: NotionBlock; parentId: string; afterId?: string };
+
+// A blocks.update request setting a block's content, e.g. { block_id, paragraph: { rich_text } }
+function contentUpdate(blockId: string, type: string, data: Record<string, unknown>): UpdateBlockParameters {
+	return { block_id: blockId, [type]: data } as UpdateBlockParameters;
+}
+
+export interface RollbackReport {
+	undone: number;
+	// Deleted blocks that could be neither un-archived nor recreated
+	lost: NotionBlock[];
+	// Changes that could not be undone, as readable descriptions
+	failures: string[];
+}
+
+export class BlockChangeLog {
+	private changes: Change[] = [];
+	written = 0;
+
+	constructor(private readonly notion: Client) {}
+
+	count(kind: Change["kind"]): number {
+		return this.changes.filter((change) => change.kind === kind).length;
+	}
+
+	// Append blocks under `parentId`, after `after` if given
+	async insert(parentId: string, blocks: any[], after?: string): Promise<AppendResult> {
+		try {
+			const result = await appendBlocks(this.notion, parentId, blocks, after);
+			this.recordInserts(result.blockIds, result.written);
+			return result;
+		} catch (error) {
+			if (error instanceof BlockWriteError) {
+				this.recordInserts(error.blockIds, error.written);
+			}
+			throw error;
+		}
+	}
+
+	// Replace a block's own content (not its children) with that of `request`
+	async update(block: NotionBlock, request: any): Promise<void> {
+		const { children: _, ...data } = request[request.type];
+		// A table's width is fixed once it has been created
+		if (request.type === "table") {
+			delete data.table_width;
+		}
+		await this.notion.blocks.update(contentUpdate(block.id, block.type, data));
+		this.changes.push({ kind: "update", block });
+	}
+
+	// Delete a block, remembering which sibling it followed so it can be put back
+	async delete(block: NotionBlock, parentId: string, afterId?: string): Promise<void> {
+		await this.notion.blocks.delete({ block_id: block.id });
+		this.changes.push({ kind: "delete", block, parentId, afterId });
+	}
+
+	private recordInserts(blockIds: string[], written: number) {
+		this.changes.push(...blockIds.map((blockId) => ({ kind: "insert" as const, blockId })));
+		this.written += written;
+	}
+
+	/**
+	 * Undo everything recorded so far: inserted blocks are removed first (newest first),
+	 * then updates are reverted and finally deleted blocks restored in their original order.
+	 */
+	async rollback(): Promise<RollbackReport> {
+		const report: RollbackReport = { undone: 0, lost: [], failures: [] };
+		const changes = this.changes;
+		this.changes = [];
+
+		for (const change of [...changes].reverse()) {
+			if (change.kind !== "insert") continue;
+			try {
+				await this.notion.blocks.delete({ block_id: change.blockId });
+				report.undone++;
+			} catch (error) {
+				console.error(`Error removing inserted block ${change.blockId}:`, error);
+				report.failures.push(`inserted block ${change.blockId} could not be removed`);
+			}
+		}
+
+		for (const change of changes) {
+			if (change.kind !== "update") continue;
+			try {
+				const { children: _, ...data } = toBlockRequest({ ...change.block, children: [] })[change.block.type];
+				await this.notion.blocks.update(contentUpdate(change.block.id, change.block.type, data));
+				report.undone++;
+			} catch (error) {
+				console.error(`Error reverting block ${change.block.id}:`, error);
+				report.failures.push(`block ${change.block.id} could not be reverted`);
+			}
+		}
+
+		// Recreated blocks get new IDs; later restores anchor on those
+		const recreatedIds = new Map<string, string>();
+		for (const change of changes) {
+			if (change.kind !== "delete") continue;
+			try {
+				await this.notion.blocks.update({ block_id: change.block.id, archived: false });
+				report.undone++;
+				continue;
+			} catch (error) {
+				console.error(`Error un-archiving block ${change.block.id}:`, error);
+			}
+
+			try {
+				const after = change.afterId && (recreatedIds.get(change.afterId) ?? change.afterId);
+				const { blockIds } = await appendBlocks(this.notion, change.parentId, [toBlockRequest(change.block)], after);
+				recreatedIds.set(change.block.id, blockIds[blockIds.length - 1]);
+				report.undone++;
+			} catch (error) {
+				console.error(`Error recreating block ${change.block.id}:`, error);
+				report.lost.push(change.block);
+			}
+		}
+
+		return report;
+	}
+}
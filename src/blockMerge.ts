@@ -0,0 +1,251 @@
+// Merge new content into existing blocks with the fewest changes: blocks whose content is
+// unchanged are left alone (keeping their IDs and discussions), blocks of the same type are
+// updated in place, new blocks are inserted after the preceding surviving block and the
+// remaining old blocks are deleted.
+
+import { BlockChangeLog } from "./blockChanges.js";
+import { isRecreatable, toBlockRequest } from "./blockRequests.js";
+import { NotionBlock } from "./blocksToMarkdown.js";
+
+export interface MergeStats {
+	kept: number;
+	updated: number;
+	inserted: number;
+	deleted: number;
+	// Blocks that could not be placed exactly where the new content puts them
+	misplaced: number;
+}
+
+type Step =
+	| { kind: "keep"; current: NotionBlock }
+	| { kind: "update"; current: NotionBlock; desired: any }
+	| { kind: "insert"; desired: any };
+
+// Collapse rich text to what is visible: text, link and the annotations that are set.
+// Adjacent runs with the same formatting are joined, since Notion may split or merge them.
+function normalizeRichText(richText: any[]): any[] {
+	const runs: any[] = [];
+	for (const item of richText) {
+		const annotations = Object.entries(item.annotations || {})
+			.filter(([key, value]) => value && !(key === "color" && value === "default"))
+			.sort(([a], [b]) => a.localeCompare(b));
+		const run = {
+			type: item.type,
+			content: item.type === "text" ? item.text.content : item.type === "equation" ? item.equation.expression : JSON.stringify(item.mention),
+			link: item.type === "text" ? item.text.link?.url ?? null : null,
+			annotations: JSON.stringify(annotations),
+		};
+		const last = runs[runs.length - 1];
+		if (last && run.type === "text" && last.type === "text" && last.link === run.link && last.annotations === run.annotations) {
+			last.content += run.content;
+		} else if (run.content) {
+			runs.push(run);
+		}
+	}
+	return runs;
+}
+
+// Comparable form of a block's own content, ignoring defaults the API fills in
+function normalizeData(value: any, key?: string): any {
+	if (key === "rich_text" || key === "caption") {
+		return normalizeRichText(value || []);
+	}
+	if (key === "cells") {
+		return (value || []).map(normalizeRichText);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => normalizeData(item));
+	}
+	if (value && typeof value === "object") {
+		const normalized: Record<string, any> = {};
+		for (const [childKey, childValue] of Object.entries(value).sort(([a], [b]) => a.localeCompare(b))) {
+			if (childKey === "children" || childValue === false || childValue === null || childValue === undefined) continue;
+			if (childKey === "color" && childValue === "default") continue;
+			if (childKey === "language" && childValue === "plain text") continue;
+			const normalizedValue = normalizeData(childValue, childKey);
+			if (Array.isArray(normalizedValue) && normalizedValue.length === 0) continue;
+			normalized[childKey] = normalizedValue;
+		}
+		return normalized;
+	}
+	return value;
+}
+
+function childRequests(request: any): any[] {
+	return request[request.type]?.children ?? [];
+}
+
+function ownKey(request: any): string {
+	return JSON.stringify([request.type, normalizeData(request[request.type])]);
+}
+
+// Key covering a block and everything nested under it
+function treeKey(request: any): string {
+	return JSON.stringify([ownKey(request), childRequests(request).map(treeKey)]);
+}
+
+// Whether an existing block can be turned into `desired` with blocks.update
+function canUpdate(current: NotionBlock, desired: any): boolean {
+	if (current.type !== desired.type || !isRecreatable({ ...current, children: [] })) {
+		return false;
+	}
+	// A table's width can't be changed after it is created
+	return current.type !== "table" || current.table.table_width === desired.table.table_width;
+}
+
+// Longest common subsequence of two key lists, as matched index pairs
+function matchSequences(a: string[], b: string[]): Array<[number, number]> {
+	const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const pairs: Array<[number, number]> = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			pairs.push([i++, j++]);
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	return pairs;
+}
+
+// Work out, for one list of siblings, which blocks are kept, updated, inserted or deleted
+function planSiblings(current: NotionBlock[], desired: any[]): { steps: Step[]; deletions: NotionBlock[] } {
+	const currentRequests = current.map((block) => toBlockRequest(block));
+	// Blocks that can't be recreated never match anything, so they are kept where they are
+	const currentKeys = currentRequests.map((request, i) => (request ? treeKey(request) : `unmatchable:${current[i].id}`));
+	const pairs = matchSequences(currentKeys, desired.map(treeKey));
+
+	const steps: Step[] = [];
+	const deletions: NotionBlock[] = [];
+	let c = 0;
+	let d = 0;
+
+	// Resolve the gap before each matched pair (and after the last one)
+	for (const [matchedCurrent, matchedDesired] of [...pairs, [current.length, desired.length] as [number, number]]) {
+		for (; d < matchedDesired; d++) {
+			// Pair with the next unmatched block in the gap that can be updated into this one
+			let target = c;
+			while (target < matchedCurrent && !canUpdate(current[target], desired[d])) target++;
+
+			if (target < matchedCurrent) {
+				for (; c < target; c++) {
+					if (currentRequests[c]) deletions.push(current[c]);
+					else steps.push({ kind: "keep", current: current[c] });
+				}
+				steps.push({ kind: "update", current: current[c++], desired: desired[d] });
+			} else {
+				steps.push({ kind: "insert", desired: desired[d] });
+			}
+		}
+
+		for (; c < matchedCurrent; c++) {
+			if (currentRequests[c]) deletions.push(current[c]);
+			else steps.push({ kind: "keep", current: current[c] });
+		}
+
+		if (matchedCurrent < current.length) {
+			steps.push({ kind: "keep", current: current[c++] });
+			d++;
+		}
+	}
+
+	return { steps, deletions };
+}
+
+/**
+ * Bring the children of `parentId` (currently `current`, with nested blocks attached
+ * as `children`) in line with `desired` block requests, recording every change in `log`.
+ */
+export async function mergeBlocks(
+	log: BlockChangeLog,
+	parentId: string,
+	current: NotionBlock[],
+	desired: any[],
+	stats: MergeStats = { kept: 0, updated: 0, inserted: 0, deleted: 0, misplaced: 0 },
+): Promise<MergeStats> {
+	const { steps, deletions } = planSiblings(current, desired);
+
+	for (const block of deletions) {
+		const index = current.indexOf(block);
+		await log.delete(block, parentId, index > 0 ? current[index - 1].id : undefined);
+		stats.deleted++;
+	}
+
+	// The API can only insert after an existing block, so blocks that belong before the first
+	// surviving block are inserted after it. If that block changed anyway and everything under it
+	// can be recreated, it is recreated behind them; otherwise it keeps its ID, discussions and
+	// nested pages and the new blocks are reported as misplaced
+	const leading: any[] = [];
+	let anchor: string | undefined;
+
+	for (let i = 0; i < steps.length; i++) {
+		const step = steps[i];
+
+		if (step.kind === "insert") {
+			if (anchor === undefined && steps.slice(i + 1).some((later) => later.kind !== "insert")) {
+				leading.push(step.desired);
+				continue;
+			}
+			const run = [step.desired];
+			while (steps[i + 1]?.kind === "insert") {
+				run.push((steps[++i] as { desired: any }).desired);
+			}
+			const { blockIds } = await log.insert(parentId, run, anchor);
+			anchor = blockIds[blockIds.length - 1];
+			stats.inserted += run.length;
+			continue;
+		}
+
+		const changed = step.kind === "update" && ownKey(toBlockRequest({ ...step.current, children: [] })) !== ownKey(step.desired);
+
+		if (leading.length > 0) {
+			const first = step.current;
+			const { blockIds } = await log.insert(parentId, leading, first.id);
+			stats.inserted += leading.length;
+			leading.length = 0;
+
+			if (step.kind === "update" && changed && isRecreatable(first)) {
+				const index = current.indexOf(first);
+				await log.delete(first, parentId, index > 0 ? current[index - 1].id : undefined);
+				const recreated = await log.insert(parentId, [step.desired], blockIds[blockIds.length - 1]);
+				anchor = recreated.blockIds[recreated.blockIds.length - 1];
+				stats.deleted++;
+				stats.inserted++;
+				continue;
+			}
+			stats.misplaced += blockIds.length;
+			anchor = blockIds[blockIds.length - 1];
+		} else {
+			anchor = step.current.id;
+		}
+
+		if (step.kind === "keep") {
+			stats.kept++;
+			continue;
+		}
+
+		if (changed) {
+			await log.update(step.current, step.desired);
+			stats.updated++;
+		} else {
+			stats.kept++;
+		}
+		await mergeBlocks(log, step.current.id, step.current.children || [], childRequests(step.desired), stats);
+	}
+
+	if (leading.length > 0) {
+		await log.insert(parentId, leading);
+		stats.inserted += leading.length;
+	}
+
+	return stats;
+}
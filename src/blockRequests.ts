@@ -0,0 +1,138 @@
+// Turn blocks read from the API back into block requests that can be appended again,
+// e.g. to restore a snapshot. Read-only fields (ids, timestamps, plain_text) are dropped.
+// The reverse (fromBlockRequest) fills them in enough for blocksToMarkdown, for previews.
+
+import { NotionBlock } from "./blocksToMarkdown.js";
+
+// Block types the API can both return and create
+const CREATABLE_TYPES = new Set([
+	"paragraph",
+	"heading_1",
+	"heading_2",
+	"heading_3",
+	"bulleted_list_item",
+	"numbered_list_item",
+	"to_do",
+	"toggle",
+	"quote",
+	"callout",
+	"code",
+	"equation",
+	"divider",
+	"table",
+	"table_row",
+	"column_list",
+	"column",
+	"synced_block",
+	"bookmark",
+	"embed",
+	"image",
+	"video",
+	"pdf",
+	"file",
+	"audio",
+	"breadcrumb",
+	"table_of_contents",
+	"link_to_page",
+]);
+
+const FILE_TYPES = new Set(["image", "video", "pdf", "file", "audio"]);
+
+function richTextRequest(item: any): any {
+	const annotations = item.annotations;
+
+	if (item.type === "text") {
+		return { type: "text", text: { content: item.text.content, link: item.text.link }, annotations };
+	}
+	if (item.type === "equation") {
+		return { type: "equation", equation: { expression: item.equation.expression }, annotations };
+	}
+
+	const mention = item.mention;
+	switch (mention?.type) {
+		case "user":
+			return { type: "mention", mention: { user: { id: mention.user.id } }, annotations };
+		case "page":
+		case "database":
+			return { type: "mention", mention: { [mention.type]: { id: mention[mention.type].id } }, annotations };
+		case "date":
+			return { type: "mention", mention: { date: mention.date }, annotations };
+		default:
+			// Other mentions can't be created; keep their text and link
+			return {
+				type: "text",
+				text: { content: item.plain_text, link: item.href ? { url: item.href } : null },
+				annotations,
+			};
+	}
+}
+
+export function richTextRequests(richText: any[] | undefined): any[] | undefined {
+	return richText?.map(richTextRequest);
+}
+
+/**
+ * Whether a block and everything nested under it can be created again.
+ * Child pages/databases, uploaded files and unsupported blocks can't.
+ */
+export function isRecreatable(block: NotionBlock): boolean {
+	if (!CREATABLE_TYPES.has(block.type)) {
+		return false;
+	}
+	if (FILE_TYPES.has(block.type) && block[block.type]?.type !== "external") {
+		return false;
+	}
+	return (block.children || []).every(isRecreatable);
+}
+
+/**
+ * Build an append request for a block and its `children`, or null if it can't be recreated.
+ */
+export function toBlockRequest(block: NotionBlock): any | null {
+	if (!isRecreatable(block)) {
+		return null;
+	}
+
+	const type = block.type;
+	const { rich_text, caption, cells, children: _, icon, ...rest } = block[type] || {};
+	const data: Record<string, any> = { ...rest };
+
+	if (rich_text) data.rich_text = richTextRequests(rich_text);
+	if (caption) data.caption = richTextRequests(caption);
+	if (cells) data.cells = cells.map(richTextRequests);
+	// Uploaded icons can't be set through the API
+	if (icon && icon.type !== "file") data.icon = icon;
+	if (type === "synced_block") {
+		data.synced_from = rest.synced_from ? { block_id: rest.synced_from.block_id } : null;
+	}
+
+	const children = (block.children || []).map(toBlockRequest);
+	// Duplicated synced blocks mirror their original and take no children of their own
+	if (children.length > 0 && !(type === "synced_block" && data.synced_from)) {
+		data.children = children;
+	}
+
+	return { object: "block", type, [type]: data };
+}
+
+function richTextFromRequest(item: any): any {
+	const plain_text = item.type === "equation" ? item.equation.expression : item.type === "text" ? item.text.content : "";
+	return { annotations: {}, href: item.text?.link?.url ?? null, ...item, plain_text };
+}
+
+/**
+ * A block that blocksToMarkdown can render, made from an append request (for previews of
+ * blocks that are yet to be written). Blocks get `id` as their ID.
+ */
+export function fromBlockRequest(request: any, id = ""): NotionBlock {
+	const type = request.type;
+	const { rich_text, caption, cells, children, ...rest } = request[type] || {};
+	const data: Record<string, any> = { ...rest };
+
+	if (rich_text) data.rich_text = rich_text.map(richTextFromRequest);
+	if (caption) data.caption = caption.map(richTextFromRequest);
+	if (cells) data.cells = cells.map((cell: any[]) => cell.map(richTextFromRequest));
+
+	const nested = (children || []).map((child: any) => fromBlockRequest(child, id));
+	return { object: "block", id, type, [type]: data, has_children: nested.length > 0, ...(nested.length > 0 ? { children: nested } : {}) };
+}
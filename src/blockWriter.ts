@@ -0,0 +1,146 @@
+// Append block trees of any size, working around the Notion API request limits:
+// at most 100 children per array, 1000 blocks per request and two levels of nesting.
+// Anything that doesn't fit is sent in follow-up requests against the created blocks.
+// A block with more than 100 rich text items is sent as several blocks of the same type.
+
+import { Client } from "@notionhq/client";
+
+export const MAX_CHILDREN_PER_REQUEST = 100;
+export const MAX_BLOCKS_PER_REQUEST = 1000;
+export const MAX_NESTING_PER_REQUEST = 2;
+export const MAX_RICH_TEXT_ITEMS = 100;
+
+// Thrown when a multi-request write fails part way; `written` blocks are already on the page,
+// under the top-level blocks listed in `blockIds`
+export class BlockWriteError extends Error {
+	constructor(public readonly written: number, public readonly blockIds: string[], public readonly originalError: any) {
+		super(originalError?.message || String(originalError));
+		this.name = "BlockWriteError";
+	}
+}
+
+function childrenOf(block: any): any[] {
+	return block[block.type]?.children ?? [];
+}
+
+function withChildren(block: any, children: any[]): any {
+	const { children: _, ...data } = block[block.type];
+	return { ...block, [block.type]: children.length > 0 ? { ...data, children } : data };
+}
+
+// Count blocks, including everything nested under them
+export function countBlocks(blocks: any[]): number {
+	return blocks.reduce((count, block) => count + 1 + countBlocks(childrenOf(block)), 0);
+}
+
+// Split a block into the part that can be sent inline with `levels` of nesting
+// and the children that have to be appended to it afterwards
+function fitBlock(block: any, levels: number): { inline: any; deferred: any[] } {
+	const children = childrenOf(block);
+	if (children.length === 0) {
+		return { inline: block, deferred: [] };
+	}
+
+	if (levels > 0) {
+		const head = children.slice(0, MAX_CHILDREN_PER_REQUEST);
+		if (head.every((child) => fitBlock(child, levels - 1).deferred.length === 0)) {
+			// Only as many children as fit in one request with everything under them
+			let count = 0;
+			let size = 1;
+			while (count < head.length && size + countBlocks([head[count]]) <= MAX_BLOCKS_PER_REQUEST) {
+				size += countBlocks([head[count++]]);
+			}
+			return { inline: withChildren(block, head.slice(0, count)), deferred: children.slice(count) };
+		}
+	}
+
+	return { inline: withChildren(block, []), deferred: children };
+}
+
+// Split a block whose rich_text is longer than one array may be into consecutive blocks of the
+// same type, with its children under the last one
+function splitRichText(block: any): any[] {
+	const children = childrenOf(block).flatMap(splitRichText);
+	const richText: any[] | undefined = block[block.type]?.rich_text;
+	if (!richText || richText.length <= MAX_RICH_TEXT_ITEMS) {
+		return [children.length > 0 ? withChildren(block, children) : block];
+	}
+
+	const parts: any[] = [];
+	for (let start = 0; start < richText.length; start += MAX_RICH_TEXT_ITEMS) {
+		const part = { ...block, [block.type]: { ...block[block.type], rich_text: richText.slice(start, start + MAX_RICH_TEXT_ITEMS) } };
+		parts.push(withChildren(part, start + MAX_RICH_TEXT_ITEMS >= richText.length ? children : []));
+	}
+	return parts;
+}
+
+export interface AppendResult {
+	// Blocks written, including nested ones
+	written: number;
+	// IDs of the created top-level blocks, in order
+	blockIds: string[];
+}
+
+/**
+ * Append blocks under a page or block, in as many requests as needed.
+ * `after` inserts the first batch after an existing child instead of at the end.
+ */
+export async function appendBlocks(notion: Client, parentId: string, blocks: any[], after?: string): Promise<AppendResult> {
+	const result: AppendResult = { written: 0, blockIds: [] };
+
+	try {
+		await appendBatches(notion, parentId, blocks.flatMap(splitRichText), after, (count) => (result.written += count), result.blockIds);
+	} catch (error) {
+		throw new BlockWriteError(result.written, result.blockIds, error);
+	}
+
+	return result;
+}
+
+async function appendBatches(
+	notion: Client,
+	parentId: string,
+	blocks: any[],
+	after: string | undefined,
+	onWritten: (count: number) => void,
+	createdIds: string[] = [],
+): Promise<void> {
+	let index = 0;
+
+	while (index < blocks.length) {
+		const batch: Array<{ inline: any; deferred: any[] }> = [];
+		let batchSize = 0;
+
+		while (index < blocks.length && batch.length < MAX_CHILDREN_PER_REQUEST) {
+			const fitted = fitBlock(blocks[index], MAX_NESTING_PER_REQUEST);
+			const size = countBlocks([fitted.inline]);
+			if (batch.length > 0 && batchSize + size > MAX_BLOCKS_PER_REQUEST) {
+				break;
+			}
+			batch.push(fitted);
+			batchSize += size;
+			index++;
+		}
+
+		const response = await notion.blocks.children.append({
+			block_id: parentId,
+			children: batch.map((fitted) => fitted.inline),
+			...(after ? { after } : {}),
+		});
+		onWritten(batchSize);
+
+		// The response lists the created top-level blocks in order; with `after` it may also
+		// include the blocks that follow, so only the first batch.length entries are ours
+		const created = response.results.slice(0, batch.length);
+		createdIds.push(...created.map((block) => block.id));
+		for (let i = 0; i < batch.length; i++) {
+			if (batch[i].deferred.length > 0) {
+				await appendBatches(notion, created[i].id, batch[i].deferred, undefined, onWritten);
+			}
+		}
+
+		if (after) {
+			after = created[created.length - 1].id;
+		}
+	}
+}
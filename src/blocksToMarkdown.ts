@@ -0,0 +1,251 @@
+// Serialize Notion blocks (as returned by blocks.children.list, with nested
+// blocks attached as `children`) into Markdown that create_page can read back.
+
+import { plainText } from "./notionObjects.js";
+
+export type NotionBlock = { type: string; id: string; has_children?: boolean; children?: NotionBlock[];[key: string]: any };
+
+export interface MarkdownOptions {
+	// Leave child_page / child_database blocks out of the output instead of rendering them as links
+	omitChildDocuments?: boolean;
+}
+
+const NOTION_URL = "https://www.notion.so";
+
+// Move leading/trailing whitespace outside of a marker pair, since "** bold **" is not valid Markdown
+function wrap(text: string, open: string, close: string = open): string {
+	const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+	if (!match || !match[2]) {
+		return text;
+	}
+	return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+}
+
+// Escape characters the inline parser would read as formatting, including equations and the
+// tags it reads. Intraword underscores (snake_case) and a lone "*" between spaces are left alone
+// since they can't open emphasis.
+function escapeMarkdown(text: string): string {
+	return text
+		.replace(/([\\`~\[\]$])/g, "\\$1")
+		.replace(/<(?=\/?(u|span|br|details|summary|aside)\b)/gi, "\\<")
+		.replace(/_/g, (match, offset) => (/\w/.test(text[offset - 1] ?? "") && /\w/.test(text[offset + 1] ?? "") ? match : "\\_"))
+		.replace(/\*/g, (match, offset) => (/\s/.test(text[offset - 1] ?? " ") && /\s/.test(text[offset + 1] ?? " ") ? match : "\\*"));
+}
+
+// Escape the start of lines that would be read as another kind of block: a heading, list item,
+// quote, table or divider. Numbered list markers are escaped at their "." or ")"
+function escapeBlockStart(markdown: string): string {
+	return markdown
+		.replace(/^([ \t]*)(?=#{1,3} |[-+*] |>|\||-{3,}[ \t]*$)/gm, "$1\\")
+		.replace(/^([ \t]*\d+)(?=[.)] )/gm, "$1\\");
+}
+
+function details(summary: string, children: string): string {
+	return `<details>\n<summary>${summary}</summary>\n\n${children}${children ? "\n\n" : ""}</details>`;
+}
+
+function mentionToMarkdown(item: any): string {
+	const mention = item.mention;
+	switch (mention?.type) {
+		case "page":
+			return `[${escapeMarkdown(item.plain_text)}](${item.href || `${NOTION_URL}/${mention.page.id.replace(/-/g, "")}`})`;
+		case "database":
+			return `[${escapeMarkdown(item.plain_text)}](${item.href || `${NOTION_URL}/${mention.database.id.replace(/-/g, "")}`})`;
+		case "user":
+			return `@${item.plain_text.replace(/^@/, "")}`;
+		case "link_preview":
+			return `[${escapeMarkdown(item.plain_text)}](${mention.link_preview.url})`;
+		default:
+			return escapeMarkdown(item.plain_text);
+	}
+}
+
+function annotatedText(item: any): string {
+	const annotations = item.annotations || {};
+	let text: string;
+
+	if (item.type === "equation") {
+		return `$${item.equation.expression}$`;
+	}
+	if (item.type === "mention") {
+		text = mentionToMarkdown(item);
+	} else if (annotations.code) {
+		text = wrap(item.plain_text, "`");
+	} else {
+		text = escapeMarkdown(item.plain_text);
+	}
+
+	if (annotations.bold) text = wrap(text, "**");
+	if (annotations.italic) text = wrap(text, "_");
+	if (annotations.strikethrough) text = wrap(text, "~~");
+	if (annotations.underline) text = wrap(text, "<u>", "</u>");
+	if (annotations.color && annotations.color !== "default") {
+		text = wrap(text, `<span color="${annotations.color}">`, "</span>");
+	}
+
+	return text;
+}
+
+// Render a rich_text array with its annotations and links
+export function richTextToMarkdown(richText: any[] | undefined): string {
+	if (!richText) {
+		return "";
+	}
+
+	let markdown = "";
+	let i = 0;
+
+	while (i < richText.length) {
+		const url = richText[i].type === "text" ? richText[i].text?.link?.url : undefined;
+		if (!url) {
+			markdown += annotatedText(richText[i++]);
+			continue;
+		}
+
+		// Consecutive runs pointing at the same URL share one [link](url)
+		let label = "";
+		while (i < richText.length && richText[i].type === "text" && richText[i].text?.link?.url === url) {
+			label += annotatedText(richText[i++]);
+		}
+		markdown += `[${label}](${url})`;
+	}
+
+	return markdown;
+}
+
+// URL of a file-like block (image, video, file, pdf, audio), whether uploaded or external
+function fileUrl(file: any): string {
+	return file?.type === "external" ? file.external?.url : file?.file?.url || "";
+}
+
+function indentLines(text: string, indent: string): string {
+	return text
+		.split("\n")
+		.map((line) => (line ? indent + line : line))
+		.join("\n");
+}
+
+function tableToMarkdown(block: NotionBlock): string {
+	const rows = (block.children || [])
+		.filter((row) => row.type === "table_row")
+		.map((row) =>
+			row.table_row.cells.map((cell: any[]) =>
+				richTextToMarkdown(cell).replace(/\|/g, "\\|").replace(/\n/g, "<br>"),
+			),
+		);
+
+	if (rows.length === 0) {
+		return "";
+	}
+
+	const width = block.table?.table_width || rows[0].length;
+	const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+
+	// GFM tables always need a header row; without a column header the first row is used
+	const [header, ...body] = rows;
+	return [line(header), line(Array(width).fill("---")), ...body.map(line)].join("\n");
+}
+
+function blockToMarkdown(block: NotionBlock, listNumber: number, options: MarkdownOptions): string | null {
+	const type = block.type;
+	const data = block[type] || {};
+	const text = richTextToMarkdown(data.rich_text);
+	const children = block.children ? blocksToMarkdown(block.children, options) : "";
+	// Nested blocks are indented under their parent, by the marker width for list items
+	const nested = (indent: string) => (children ? "\n" + indentLines(children, indent) : "");
+
+	switch (type) {
+		case "paragraph":
+			return escapeBlockStart(text) + nested("  ");
+		case "heading_1":
+		case "heading_2":
+		case "heading_3": {
+			const heading = `${"#".repeat(Number(type.slice(-1)))} ${text}`;
+			// Toggleable headings hold their nested blocks the way toggles do
+			return data.is_toggleable || children ? details(heading, children) : heading;
+		}
+		case "bulleted_list_item":
+			return `- ${text}` + nested("  ");
+		case "numbered_list_item": {
+			const marker = `${listNumber}. `;
+			return marker + text + nested(" ".repeat(marker.length));
+		}
+		case "to_do":
+			return `- [${data.checked ? "x" : " "}] ${text}` + nested("  ");
+		case "toggle":
+			return details(escapeBlockStart(text), children);
+		case "quote":
+			return indentLines(text + (children ? "\n" + children : ""), "> ").replace(/^$/gm, ">");
+		case "callout": {
+			const icon = data.icon?.type === "emoji" ? `${data.icon.emoji} ` : "";
+			return `<aside>\n${icon}${text}${children ? "\n\n" + children : ""}\n</aside>`;
+		}
+		case "code":
+			return "```" + (data.language && data.language !== "plain text" ? data.language : "") + "\n" + plainText(data.rich_text) + "\n```";
+		case "equation":
+			return `$$\n${data.expression}\n$$`;
+		case "divider":
+			return "---";
+		case "table":
+			return tableToMarkdown(block);
+		case "column_list":
+		case "column":
+		case "synced_block":
+		case "template":
+			// Layout-only containers: render their content in place
+			return [text, children].filter(Boolean).join("\n");
+		case "image": {
+			return `![${plainText(data.caption)}](${fileUrl(data)})`;
+		}
+		case "video":
+		case "audio":
+		case "file":
+		case "pdf": {
+			const url = fileUrl(data);
+			const label = plainText(data.caption) || data.name || url;
+			return `[${escapeMarkdown(label)}](${url})`;
+		}
+		case "bookmark":
+		case "embed":
+		case "link_preview": {
+			const label = plainText(data.caption) || data.url;
+			return `[${escapeMarkdown(label)}](${data.url})`;
+		}
+		case "link_to_page": {
+			const id = data.page_id || data.database_id || "";
+			return `[↗ ${id.replace(/-/g, "")}](${NOTION_URL}/${id.replace(/-/g, "")})`;
+		}
+		case "child_page":
+		case "child_database": {
+			if (options.omitChildDocuments) {
+				return null;
+			}
+			const icon = type === "child_page" ? "📄" : "📊";
+			return `[${icon} ${escapeMarkdown(data.title || "Untitled")}](${NOTION_URL}/${block.id.replace(/-/g, "")})`;
+		}
+		case "table_of_contents":
+		case "breadcrumb":
+			return `<!-- ${type} -->`;
+		default:
+			// Unsupported or unknown block types: keep any text they carry
+			return text || `<!-- unsupported block: ${type} -->`;
+	}
+}
+
+// Render a list of sibling blocks, one block per line
+export function blocksToMarkdown(blocks: NotionBlock[], options: MarkdownOptions = {}): string {
+	const lines: string[] = [];
+	let listNumber = 0;
+
+	for (const block of blocks) {
+		// Numbered list items count up across consecutive siblings
+		listNumber = block.type === "numbered_list_item" ? listNumber + 1 : 0;
+
+		const markdown = blockToMarkdown(block, listNumber, options);
+		if (markdown !== null) {
+			lines.push(markdown);
+		}
+	}
+
+	return lines.join("\n");
+}
@@ -0,0 +1,282 @@
+// Find pages, database rows and databases edited since a point in time, across the workspace or
+// under a root page or database, and poll watched roots in the background.
+// Notion rounds last_edited_time to the minute, so positions are kept as a cursor holding the
+// latest timestamp and the IDs already reported at it; edits within that same minute to an
+// item that was already reported can't be told apart and are not reported again.
+
+import { Ancestry, AncestryClient } from "./ancestry.js";
+import { Endpoint, paginate, titleOf } from "./notionObjects.js";
+import { ToolError } from "./toolErrors.js";
+
+// The parts of the Notion client the feed uses, so it can run against a fake in tests
+export interface ChangeClient extends AncestryClient {
+	search: Endpoint;
+	databases: { retrieve: Endpoint; query: Endpoint };
+	users: { retrieve: Endpoint };
+}
+
+export interface Change {
+	id: string;
+	object: "page" | "database";
+	title: string;
+	url: string;
+	lastEditedTime: string;
+	// Name of the last editor (their ID if the integration can't read user information)
+	lastEditedBy: string;
+	// Set for database rows
+	databaseId?: string;
+}
+
+export interface ChangeList {
+	changes: Change[];
+	// Pass back as `cursor` to get only later changes
+	cursor: string;
+	// Set when more items were edited than one search scans (MAX_SCANNED): changes made after the
+	// position but before this time could not be listed
+	skippedUntil?: string;
+}
+
+interface Position {
+	time: string;
+	ids: string[];
+}
+
+// Items scanned per search for page roots and workspace-wide changes
+const MAX_SCANNED = 1000;
+
+export function encodeCursor(position: Position): string {
+	return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): Position {
+	try {
+		const position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+		if (typeof position.time === "string" && Array.isArray(position.ids)) {
+			return position;
+		}
+	} catch {
+		// Reported below
+	}
+	throw new ToolError("validation", `Invalid cursor: ${cursor}`, "Pass a cursor returned by list_changes, or an ISO timestamp as since.");
+}
+
+function timePosition(since: string): Position {
+	const time = new Date(since);
+	if (Number.isNaN(time.getTime())) {
+		throw new ToolError("validation", `Invalid timestamp: ${since}`, "Pass an ISO timestamp like 2026-11-01T09:00:00Z as since.");
+	}
+	return { time: time.toISOString(), ids: [] };
+}
+
+export class ChangeFeed {
+	private userNames = new Map<string, Promise<string>>();
+	private rootKinds = new Map<string, Promise<"page" | "database">>();
+
+	constructor(private readonly notion: ChangeClient, private readonly ancestry = new Ancestry(notion)) {}
+
+	/**
+	 * Changes after `since` (an ISO timestamp or a cursor from a previous call), oldest first.
+	 * With `rootId`, only rows of that database or pages nested under that page are included.
+	 */
+	async listChanges({ since, rootId, limit = 100 }: { since: string; rootId?: string; limit?: number }): Promise<ChangeList> {
+		const position = /^\d{4}-\d{2}-\d{2}/.test(since) ? timePosition(since) : decodeCursor(since);
+
+		const { items, skippedUntil } = rootId && (await this.rootKind(rootId)) === "database"
+			? { items: await this.databaseItems(rootId, position.time, limit + position.ids.length), skippedUntil: undefined }
+			: await this.searchItems(position.time, rootId);
+
+		const fresh = items
+			.filter((item) => !(item.last_edited_time === position.time && position.ids.includes(item.id)))
+			.filter((item) => new Date(item.last_edited_time) >= new Date(position.time))
+			.sort((a, b) => a.last_edited_time.localeCompare(b.last_edited_time))
+			.slice(0, limit);
+
+		// The cursor only moves up to the last change returned. When the scan was cut short, the
+		// changes returned are the oldest it reached and the gap before them is reported
+		const changes = await Promise.all(fresh.map((item) => this.toChange(item)));
+		return { changes, cursor: encodeCursor(this.advance(position, changes)), ...(skippedUntil ? { skippedUntil } : {}) };
+	}
+
+	private advance(position: Position, changes: Change[]): Position {
+		const last = changes[changes.length - 1];
+		if (!last) return position;
+		const time = new Date(last.lastEditedTime).toISOString();
+		const ids = changes.filter((change) => new Date(change.lastEditedTime).toISOString() === time).map((change) => change.id);
+		return { time, ids: time === position.time ? [...position.ids, ...ids] : ids };
+	}
+
+	private rootKind(rootId: string): Promise<"page" | "database"> {
+		if (!this.rootKinds.has(rootId)) {
+			this.rootKinds.set(rootId, this.notion.databases.retrieve({ database_id: rootId }).then(
+				() => "database" as const,
+				() => "page" as const,
+			));
+		}
+		return this.rootKinds.get(rootId)!;
+	}
+
+	private async databaseItems(databaseId: string, time: string, limit: number): Promise<any[]> {
+		const { results } = await paginate<any>(
+			(start_cursor, page_size) => this.notion.databases.query({
+				database_id: databaseId,
+				filter: { timestamp: "last_edited_time", last_edited_time: { on_or_after: time } },
+				sorts: [{ timestamp: "last_edited_time", direction: "ascending" }],
+				start_cursor,
+				page_size,
+			}),
+			{ fetchAll: true, maxResults: limit },
+		);
+		return results;
+	}
+
+	// Most recently edited first, stopping at the first item older than `time`. Search can't
+	// filter by time, so after MAX_SCANNED items the scan stops and `skippedUntil` is the edit time
+	// of the oldest item scanned
+	private async searchItems(time: string, rootId?: string): Promise<{ items: any[]; skippedUntil?: string }> {
+		const items: any[] = [];
+		let scanned = 0;
+		let oldest = "";
+		let cursor: string | undefined;
+		do {
+			const response = await this.notion.search({
+				sort: { timestamp: "last_edited_time", direction: "descending" },
+				start_cursor: cursor,
+				page_size: 100,
+			});
+			for (const item of response.results) {
+				scanned++;
+				if (new Date(item.last_edited_time) < new Date(time)) {
+					return { items };
+				}
+				oldest = item.last_edited_time;
+				this.ancestry.remember(item);
+				if (!rootId || (await this.ancestry.isWithin(item.id, rootId))) {
+					items.push(item);
+				}
+			}
+			cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+		} while (cursor && scanned < MAX_SCANNED);
+		return cursor ? { items, skippedUntil: oldest } : { items };
+	}
+
+	private async toChange(item: any): Promise<Change> {
+		return {
+			id: item.id,
+			object: item.object,
+			title: titleOf(item),
+			url: item.url,
+			lastEditedTime: item.last_edited_time,
+			lastEditedBy: item.last_edited_by ? await this.userName(item.last_edited_by.id) : "unknown",
+			...(item.parent?.type === "database_id" ? { databaseId: item.parent.database_id } : {}),
+		};
+	}
+
+	private userName(userId: string): Promise<string> {
+		if (!this.userNames.has(userId)) {
+			this.userNames.set(userId, this.notion.users.retrieve({ user_id: userId }).then(
+				(user) => user.name || user.person?.email || userId,
+				() => userId,
+			));
+		}
+		return this.userNames.get(userId)!;
+	}
+}
+
+export interface PollerOptions {
+	// Delay between polls while changes keep coming in
+	minInterval?: number;
+	// Longest delay reached by backing off while nothing changes
+	maxInterval?: number;
+}
+
+/**
+ * Polls watched roots and reports their changes. Each root keeps its own watermark, starting
+ * when the poller is started. The delay doubles after each poll without changes, up to
+ * `maxInterval`, and drops back to `minInterval` as soon as something changes.
+ */
+export class ChangePoller {
+	private cursors = new Map<string, string>();
+	private timer?: ReturnType<typeof setTimeout>;
+	private readonly minInterval: number;
+	private readonly maxInterval: number;
+	interval: number;
+
+	constructor(
+		private readonly feed: ChangeFeed,
+		private readonly roots: string[],
+		private readonly onChanges: (rootId: string, changes: Change[]) => void | Promise<void>,
+		{ minInterval = 30_000, maxInterval = 10 * 60_000 }: PollerOptions = {},
+	) {
+		this.minInterval = minInterval;
+		this.maxInterval = maxInterval;
+		this.interval = minInterval;
+	}
+
+	watermark(rootId: string): string | undefined {
+		return this.cursors.get(rootId);
+	}
+
+	// Run one round over all roots and return how many changes were reported
+	async poll(now = new Date()): Promise<number> {
+		let reported = 0;
+
+		for (const rootId of this.roots) {
+			try {
+				const cursor = this.cursors.get(rootId);
+				if (!cursor) {
+					// Start from the current minute, without reporting what was edited before now
+					const minute = new Date(Math.floor(now.getTime() / 60_000) * 60_000).toISOString();
+					const { cursor: start } = await this.drain(rootId, minute);
+					this.cursors.set(rootId, start);
+					continue;
+				}
+
+				const { changes, cursor: next } = await this.drain(rootId, cursor);
+				this.cursors.set(rootId, next);
+				if (changes.length > 0) {
+					reported += changes.length;
+					await this.onChanges(rootId, changes);
+				}
+			} catch (error) {
+				console.error(`Error polling changes under ${rootId}:`, error);
+			}
+		}
+
+		this.interval = reported > 0 ? this.minInterval : Math.min(this.interval * 2, this.maxInterval);
+		return reported;
+	}
+
+	// Follow the feed until it is caught up
+	private async drain(rootId: string, since: string): Promise<ChangeList> {
+		const changes: Change[] = [];
+		let cursor = since;
+		while (true) {
+			const page = await this.feed.listChanges({ since: cursor, rootId, limit: 100 });
+			if (page.skippedUntil) {
+				console.error(`Too many changes under ${rootId} to list them all; changes before ${page.skippedUntil} were skipped`);
+			}
+			changes.push(...page.changes);
+			cursor = page.cursor;
+			if (page.changes.length < 100) {
+				return { changes, cursor };
+			}
+		}
+	}
+
+	start(): void {
+		const tick = async () => {
+			await this.poll();
+			if (this.timer) {
+				this.timer = setTimeout(tick, this.interval);
+				this.timer.unref?.();
+			}
+		};
+		this.timer = setTimeout(tick, 0);
+		this.timer.unref?.();
+	}
+
+	stop(): void {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+	}
+}
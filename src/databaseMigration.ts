@@ -0,0 +1,198 @@
+// Plan the databases.update call that turns a database's current schema into a desired one:
+// properties are matched by name, by `renames` or by property ID, and the differences are
+// reported as added, renamed, retyped, changed and removed properties and select options.
+
+import { normalizeId } from "./ancestry.js";
+import { DatabaseSchema } from "./notionObjects.js";
+import { ToolError } from "./toolErrors.js";
+
+export interface OptionChanges {
+	property: string;
+	added: string[];
+	// Existing options with a new color or description
+	updated: string[];
+	removed: string[];
+}
+
+export interface MigrationPlan {
+	added: Array<{ name: string; type: string }>;
+	renamed: Array<{ from: string; to: string }>;
+	// `destructive` when the conversion can lose values (see LOSSLESS_RETYPES)
+	retyped: Array<{ name: string; from: string; to: string; destructive: boolean }>;
+	// Same type, different configuration (number format, formula expression, relation, ...)
+	changed: string[];
+	removed: Array<{ name: string; type: string }>;
+	options: OptionChanges[];
+	// `properties` for databases.update, keyed by current property name
+	updates: Record<string, any>;
+}
+
+export class MigrationError extends ToolError {
+	constructor(message: string) {
+		super("validation", message);
+		this.name = "MigrationError";
+	}
+}
+
+// Type changes that keep every value: between the plain text types, to text, and from a single
+// to a multi-select. Anything else (text to number, select to date, ...) can drop values that
+// don't convert
+const TEXT_TYPES = ["rich_text", "url", "email", "phone_number"];
+const LOSSLESS_RETYPES = new Set([
+	...TEXT_TYPES.flatMap((from) => TEXT_TYPES.map((to) => `${from}>${to}`)),
+	...["number", "select", "multi_select", "status", "date", "checkbox"].map((from) => `${from}>rich_text`),
+	"rich_text>select",
+	"select>multi_select",
+]);
+
+function propertyType(property: any): string {
+	return property.type ?? Object.keys(property).find((key) => !["id", "name", "description", "type"].includes(key));
+}
+
+// Whether every field given in `desired` has the same value in `current`. Database IDs match
+// with or without dashes
+function isSubset(desired: any, current: any, key?: string): boolean {
+	if (desired && typeof desired === "object") {
+		if (!current || typeof current !== "object") return false;
+		return Object.entries(desired).every(([childKey, value]) => isSubset(value, current[childKey], childKey));
+	}
+	if (key === "database_id" && typeof desired === "string" && typeof current === "string") {
+		return normalizeId(desired) === normalizeId(current);
+	}
+	return desired === current;
+}
+
+// Desired options with the IDs (and, unless given, colors) of existing options of the same name,
+// so rows keep their values
+function mergeOptions(property: string, current: any[], desired: any[]): { options: any[]; changes: OptionChanges } {
+	const byName = new Map(current.map((option) => [option.name, option]));
+	const options = desired.map((option) => {
+		const existing = byName.get(option.name);
+		return existing ? { id: existing.id, name: option.name, color: option.color ?? existing.color, ...(option.description !== undefined ? { description: option.description } : {}) } : option;
+	});
+	const desiredNames = new Set(desired.map((option) => option.name));
+	return {
+		options,
+		changes: {
+			property,
+			added: desired.filter((option) => !byName.has(option.name)).map((option) => option.name),
+			updated: desired.filter((option) => byName.has(option.name) && !isSubset(option, byName.get(option.name))).map((option) => option.name),
+			removed: current.filter((option) => !desiredNames.has(option.name)).map((option) => option.name),
+		},
+	};
+}
+
+/**
+ * Diff `current` (from databases.retrieve) against `desired` (property configurations by name, as
+ * for create_database). `renames` maps current names to desired names; desired properties that
+ * carry the `id` of an existing property are treated as renames too, as is a renamed title.
+ */
+export function planMigration(current: DatabaseSchema, desired: Record<string, any>, renames: Record<string, string> = {}): MigrationPlan {
+	const plan: MigrationPlan = { added: [], renamed: [], retyped: [], changed: [], removed: [], options: [], updates: {} };
+
+	for (const [from, to] of Object.entries(renames)) {
+		if (!current[from]) throw new MigrationError(`Can't rename "${from}": the database has no such property`);
+		if (!desired[to]) throw new MigrationError(`Can't rename "${from}" to "${to}": "${to}" is not in the desired schema`);
+	}
+
+	// Desired name -> current name
+	const matches = new Map<string, string>();
+	const renamedTo = new Map(Object.entries(renames).map(([from, to]) => [to, from]));
+	for (const [name, property] of Object.entries(desired)) {
+		const byId = property.id && Object.keys(current).find((key) => current[key].id === property.id);
+		const source = renamedTo.get(name) ?? byId ?? (current[name] && !renames[name] ? name : undefined);
+		if (source) matches.set(name, source);
+	}
+	const currentTitle = Object.keys(current).find((name) => current[name].type === "title");
+	const desiredTitle = Object.keys(desired).find((name) => propertyType(desired[name]) === "title");
+	const matched = new Set(matches.values());
+	if (currentTitle && desiredTitle && !matches.has(desiredTitle) && !matched.has(currentTitle)) {
+		matches.set(desiredTitle, currentTitle);
+	}
+
+	// `updates` is keyed by current name, so a name can only go to a new or renamed property once
+	// the property that has it now is renamed or removed; doing both in one update would retype or
+	// rename the wrong property
+	for (const name of Object.keys(desired)) {
+		const source = matches.get(name);
+		if (current[name] && source !== name) {
+			throw new MigrationError(`Can't give the name "${name}" to ${source ? `"${source}"` : "a new property"}: the existing "${name}" still has it. Rename or remove "${name}" in one migration, then use its name in another`);
+		}
+	}
+
+	for (const [name, property] of Object.entries(desired)) {
+		const type = propertyType(property);
+		const { id: _, name: __, type: ___, ...config } = property;
+		const source = matches.get(name);
+
+		if (!source) {
+			plan.added.push({ name, type });
+			plan.updates[name] = config;
+			continue;
+		}
+
+		const existing = current[source];
+		const update: Record<string, any> = {};
+		if (source !== name) {
+			plan.renamed.push({ from: source, to: name });
+			update.name = name;
+		}
+		if (property.description !== undefined && property.description !== (existing.description ?? null)) {
+			update.description = property.description;
+			plan.changed.push(name);
+		}
+
+		if (existing.type !== type) {
+			if (existing.type === "title" || type === "title") {
+				throw new MigrationError(`Can't change "${name}" from ${existing.type} to ${type}: the title property can't be retyped`);
+			}
+			plan.retyped.push({ name, from: existing.type, to: type, destructive: !LOSSLESS_RETYPES.has(`${existing.type}>${type}`) });
+			update[type] = config[type];
+		} else if ((type === "select" || type === "multi_select") && config[type].options) {
+			const { options, changes } = mergeOptions(name, existing[type].options || [], config[type].options);
+			if (changes.added.length > 0 || changes.updated.length > 0 || changes.removed.length > 0) {
+				plan.options.push(changes);
+				update[type] = { options };
+			}
+		} else if (!isSubset(config[type], existing[type])) {
+			plan.changed.push(name);
+			update[type] = config[type];
+		}
+
+		if (Object.keys(update).length > 0) {
+			plan.updates[source] = update;
+		}
+	}
+
+	const kept = new Set(matches.values());
+	for (const [name, property] of Object.entries(current)) {
+		if (!kept.has(name)) {
+			plan.removed.push({ name, type: property.type });
+			plan.updates[name] = null;
+		}
+	}
+
+	return plan;
+}
+
+// Whether applying the plan can delete values: removed properties and options, and retypes that can lose values
+export function removesData(plan: MigrationPlan): boolean {
+	return plan.removed.length > 0 || plan.options.some((changes) => changes.removed.length > 0) || plan.retyped.some((retype) => retype.destructive);
+}
+
+// One line per change, e.g. `+ add "Priority" (select)` or `~ retype "Estimate": rich_text → number`
+export function describePlan(plan: MigrationPlan): string {
+	const lines = [
+		...plan.added.map(({ name, type }) => `+ add "${name}" (${type})`),
+		...plan.renamed.map(({ from, to }) => `~ rename "${from}" → "${to}"`),
+		...plan.retyped.map(({ name, from, to, destructive }) => `~ retype "${name}": ${from} → ${to}${destructive ? " (values that don't convert are lost)" : ""}`),
+		...[...new Set(plan.changed)].map((name) => `~ change "${name}" configuration`),
+		...plan.options.map(({ property, added, updated, removed }) => `~ options of "${property}": ${[
+			...added.map((option) => `+"${option}"`),
+			...updated.map((option) => `~"${option}"`),
+			...removed.map((option) => `-"${option}"`),
+		].join(" ")}`),
+		...plan.removed.map(({ name, type }) => `- remove "${name}" (${type})`),
+	];
+	return lines.length > 0 ? lines.join("\n") : "No changes: the schema is already up to date.";
+}
@@ -0,0 +1,181 @@
+// Zod model of database property schemas, as sent to databases.create and databases.update.
+// Each property is checked against the configuration for its type, so a mistake is reported
+// with the property and field it is in instead of as an opaque 400 from Notion.
+
+import { z } from "zod";
+
+export const SELECT_COLORS = ["default", "gray", "brown", "orange", "yellow", "green", "blue", "purple", "pink", "red"] as const;
+
+export const NUMBER_FORMATS = [
+	"number", "number_with_commas", "percent", "dollar", "australian_dollar", "canadian_dollar", "singapore_dollar",
+	"euro", "pound", "yen", "ruble", "rupee", "won", "yuan", "real", "lira", "rupiah", "franc", "hong_kong_dollar",
+	"new_zealand_dollar", "krona", "norwegian_krone", "mexican_peso", "rand", "new_taiwan_dollar", "danish_krone",
+	"zloty", "baht", "forint", "koruna", "shekel", "chilean_peso", "philippine_peso", "dirham", "colombian_peso",
+	"riyal", "ringgit", "leu", "argentine_peso", "uruguayan_peso", "peruvian_sol",
+] as const;
+
+export const ROLLUP_FUNCTIONS = [
+	"count", "count_values", "empty", "not_empty", "unique", "show_unique", "percent_empty", "percent_not_empty",
+	"sum", "average", "median", "min", "max", "range", "earliest_date", "latest_date", "date_range", "checked",
+	"unchecked", "percent_checked", "percent_unchecked", "count_per_group", "percent_per_group", "show_original",
+] as const;
+
+const emptyConfig = z.object({}).strict();
+
+const selectOption = z.object({
+	id: z.string().optional(),
+	name: z.string().min(1).max(100).refine((name) => !name.includes(","), "option names can't contain commas").optional(),
+	color: z.enum(SELECT_COLORS).optional(),
+	description: z.string().nullable().optional(),
+}).strict().refine((option) => option.id !== undefined || option.name !== undefined, "an option needs a name (or the id of an existing option)");
+
+const selectConfig = z.object({
+	options: z.array(selectOption).max(100).optional(),
+}).strict();
+
+const relationConfig = z.object({
+	database_id: z.string().min(1),
+	type: z.enum(["single_property", "dual_property"]).optional(),
+	single_property: emptyConfig.optional(),
+	dual_property: z.object({
+		synced_property_name: z.string().optional(),
+		synced_property_id: z.string().optional(),
+	}).strict().optional(),
+}).strict().superRefine((relation, ctx) => {
+	const kinds = (["single_property", "dual_property"] as const).filter((kind) => relation[kind] !== undefined);
+	if (kinds.length !== 1) {
+		ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'set either "single_property": {} or "dual_property": {} (a relation shown on both databases)' });
+	} else if (relation.type && relation.type !== kinds[0]) {
+		ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["type"], message: `type is "${relation.type}" but the configuration is for ${kinds[0]}` });
+	}
+});
+
+const rollupConfig = z.object({
+	relation_property_name: z.string().optional(),
+	relation_property_id: z.string().optional(),
+	rollup_property_name: z.string().optional(),
+	rollup_property_id: z.string().optional(),
+	function: z.enum(ROLLUP_FUNCTIONS),
+}).strict()
+	.refine((rollup) => rollup.relation_property_name ?? rollup.relation_property_id, "set relation_property_name or relation_property_id")
+	.refine((rollup) => rollup.rollup_property_name ?? rollup.rollup_property_id, "set rollup_property_name or rollup_property_id");
+
+// Configuration object for each property type
+export const PROPERTY_CONFIGS: Record<string, z.ZodTypeAny> = {
+	title: emptyConfig,
+	rich_text: emptyConfig,
+	number: z.object({ format: z.enum(NUMBER_FORMATS).optional() }).strict(),
+	select: selectConfig,
+	multi_select: selectConfig,
+	// Status options and groups can only be edited in the Notion app
+	status: z.object({}).strict("status options and groups can't be set through the API"),
+	date: emptyConfig,
+	checkbox: emptyConfig,
+	people: emptyConfig,
+	files: emptyConfig,
+	url: emptyConfig,
+	email: emptyConfig,
+	phone_number: emptyConfig,
+	formula: z.object({ expression: z.string().min(1) }).strict(),
+	relation: relationConfig,
+	rollup: rollupConfig,
+	created_time: emptyConfig,
+	created_by: emptyConfig,
+	last_edited_time: emptyConfig,
+	last_edited_by: emptyConfig,
+	unique_id: z.object({ prefix: z.string().nullable().optional() }).strict(),
+};
+
+const PROPERTY_TYPES = Object.keys(PROPERTY_CONFIGS);
+
+const propertyFields = {
+	id: z.string().optional(),
+	name: z.string().min(1).optional(),
+	description: z.string().max(280).nullable().optional(),
+};
+
+const typedProperties = Object.fromEntries(PROPERTY_TYPES.map((type) => [
+	type,
+	z.object({ ...propertyFields, type: z.literal(type).optional(), [type]: PROPERTY_CONFIGS[type] }).strict(),
+]));
+
+// One property: `{ "<type>": {config}, name?, description? }`. With `update`, a property may also
+// be `null` (remove it) or `{ name }` (rename it only).
+function databaseProperty(update: boolean) {
+	return z.any().superRefine((value, ctx) => {
+		if (value === null && update) {
+			return;
+		}
+		if (!value || typeof value !== "object" || Array.isArray(value)) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: update ? "expected a property object, or null to remove it" : "expected a property object" });
+			return;
+		}
+
+		const types = PROPERTY_TYPES.filter((type) => type in value);
+		if (types.length === 0 && typeof value.type === "string") {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["type"],
+				message: PROPERTY_TYPES.includes(value.type)
+					? `missing the "${value.type}" configuration, e.g. "${value.type}": {}`
+					: `unknown property type "${value.type}". Types: ${PROPERTY_TYPES.join(", ")}`,
+			});
+			return;
+		}
+		if (types.length === 0) {
+			if (update && Object.keys(value).every((key) => key === "name" || key === "description")) {
+				return;
+			}
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: `missing a property type; add one of ${PROPERTY_TYPES.join(", ")} with its configuration` });
+			return;
+		}
+		if (types.length > 1) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, message: `has configurations for more than one type: ${types.join(", ")}` });
+			return;
+		}
+
+		const result = typedProperties[types[0]].safeParse(value);
+		if (!result.success) {
+			for (const issue of result.error.issues) {
+				ctx.addIssue(issue as z.IssueData);
+			}
+		}
+	});
+}
+
+// Properties for databases.create; exactly one of them must be the title
+export const databaseProperties = z.record(databaseProperty(false)).superRefine((properties, ctx) => {
+	const titles = Object.keys(properties).filter((name) => properties[name] && "title" in properties[name]);
+	if (titles.length !== 1) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			message: titles.length === 0
+				? 'a database needs a title property, e.g. "Name": { "title": {} }'
+				: `a database has exactly one title property, found ${titles.join(", ")}`,
+		});
+	}
+});
+
+// Property changes for databases.update, keyed by current property name or ID
+export const databasePropertyUpdates = z.record(databaseProperty(true));
+
+// Databases that relation properties link to. Two-way relations add a property to the related
+// database too, so they need write access to it
+export function relatedDatabases(properties: Record<string, any>): Array<{ databaseId: string; access: "read" | "write" }> {
+	return Object.values(properties)
+		.filter((property) => property?.relation?.database_id)
+		.map(({ relation }) => ({ databaseId: relation.database_id, access: relation.dual_property ? "write" : "read" }));
+}
+
+function formatPath(path: Array<string | number>): string {
+	return path.map((part, i) => (typeof part === "number" ? `[${part}]` : i === 0 ? part : `.${part}`)).join("");
+}
+
+// One line per problem, naming the property and field, e.g. `"Tags" multi_select.options[2].color: ...`
+export function describeSchemaIssues(error: z.ZodError): string {
+	return error.issues.map((issue) => {
+		const [property, ...field] = issue.path;
+		const location = property === undefined ? "schema" : `"${property}"${field.length ? ` ${formatPath(field)}` : ""}`;
+		return `- ${location}: ${issue.message}`;
+	}).join("\n");
+}
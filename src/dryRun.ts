@@ -0,0 +1,129 @@
+// Dry runs: a tool call runs as usual, reading from Notion and checking everything, but its
+// write requests are recorded instead of sent, and answered with stand-ins (objects it would
+// create get placeholder IDs such as "new-block-3"). The recorded requests are the plan that a
+// human can approve before the call is repeated for real.
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { fromBlockRequest } from "./blockRequests.js";
+import { blocksToMarkdown, NotionBlock } from "./blocksToMarkdown.js";
+import { plainText } from "./notionObjects.js";
+import { RateLimitedClient } from "./requestLimiter.js";
+
+export interface PlannedRequest {
+	method: string;
+	path: string;
+	body?: any;
+	// For deletions, the block as it is now
+	block?: NotionBlock;
+}
+
+// Requests that only read, including the POST endpoints for search and database queries
+export function isWrite(method: string, path: string): boolean {
+	switch (method.toLowerCase()) {
+		case "get":
+			return false;
+		case "post":
+			return !(path === "search" || /^databases\/[^/]+\/query$/.test(path));
+		default:
+			return true;
+	}
+}
+
+export class DryRun {
+	readonly requests: PlannedRequest[] = [];
+	private created = 0;
+
+	private placeholder(object: string): string {
+		return `new-${object}-${++this.created}`;
+	}
+
+	// A stand-in for Notion's response, with what callers read from it: IDs, and the blocks an append creates
+	respond(method: string, path: string, body: any = {}): any {
+		if (/^blocks\/[^/]+\/children$/.test(path)) {
+			const results = (body.children || []).map((child: any) => ({ object: "block", id: this.placeholder("block"), type: child.type }));
+			return { object: "list", results, has_more: false, next_cursor: null };
+		}
+		if (method.toLowerCase() === "post") {
+			// pages, databases or comments
+			const object = path.replace(/s$/, "");
+			return { ...body, object, id: this.placeholder(object), url: "" };
+		}
+		const [collection, id] = path.split("/");
+		return { ...body, object: collection.replace(/s$/, ""), id };
+	}
+}
+
+const activeDryRun = new AsyncLocalStorage<DryRun>();
+
+// Run `task` with the writes of every DryRunClient request it makes recorded instead of sent
+export async function dryRun<T>(task: () => Promise<T>): Promise<{ result: T; requests: PlannedRequest[] }> {
+	const plan = new DryRun();
+	const result = await activeDryRun.run(plan, task);
+	return { result, requests: plan.requests };
+}
+
+/**
+ * A rate-limited Notion client whose writes are recorded instead of sent while inside dryRun().
+ */
+export class DryRunClient extends RateLimitedClient {
+	override async request<ResponseBody>(args: Parameters<RateLimitedClient["request"]>[0]): Promise<ResponseBody> {
+		const plan = activeDryRun.getStore();
+		if (!plan || !isWrite(args.method, args.path)) {
+			return super.request<ResponseBody>(args);
+		}
+
+		const planned: PlannedRequest = { method: args.method.toUpperCase(), path: args.path, body: args.body };
+		if (planned.method === "DELETE" && args.path.startsWith("blocks/")) {
+			// Show what would be deleted
+			planned.block = await super.request<NotionBlock>({ method: "get", path: args.path }).catch(() => undefined);
+		}
+		plan.requests.push(planned);
+		return plan.respond(args.method, args.path, args.body) as ResponseBody;
+	}
+}
+
+function json(value: any): string {
+	return "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+}
+
+function preview(blocks: NotionBlock[]): string {
+	return "```markdown\n" + blocksToMarkdown(blocks) + "\n```";
+}
+
+// One request, described for a reader
+export function describeRequest({ method, path, body = {}, block }: PlannedRequest): string {
+	const [collection, id, sub] = path.split("/");
+
+	if (collection === "blocks" && sub === "children") {
+		const after = body.after ? ` after block ${body.after}` : "";
+		return `Append ${body.children.length} blocks to ${id}${after}:\n${preview(body.children.map((child: any) => fromBlockRequest(child)))}`;
+	}
+	if (collection === "blocks" && method === "DELETE") {
+		return `Delete block ${id}` + (block ? ` (${block.type}):\n${preview([block])}` : "");
+	}
+	if (collection === "blocks" && body.archived === false) {
+		return `Restore deleted block ${id}`;
+	}
+	if (collection === "blocks" && method === "PATCH") {
+		// The client sends a key for every block type, most of them undefined
+		const type = Object.keys(body).find((key) => body[key] !== undefined && !["type", "archived", "in_trash"].includes(key));
+		return `Update block ${id}` + (type ? ` (${type}) to:\n${preview([fromBlockRequest({ type, [type]: body[type] })])}` : `:\n${json(body)}`);
+	}
+	if (collection === "pages" && method === "POST") {
+		const parent = body.parent?.database_id ? `database ${body.parent.database_id}` : `page ${body.parent?.page_id}`;
+		return `Create a page in ${parent} with properties:\n${json(body.properties)}`;
+	}
+	if (collection === "pages" && method === "PATCH") {
+		return `Update page ${id}:\n${json(body)}`;
+	}
+	if (collection === "databases" && method === "POST") {
+		return `Create database "${plainText(body.title)}" in page ${body.parent?.page_id} with properties:\n${json(body.properties)}`;
+	}
+	if (collection === "databases" && method === "PATCH") {
+		return `Update database ${id}:\n${json(body)}`;
+	}
+	if (collection === "comments") {
+		return `Comment on page ${body.parent?.page_id}: "${plainText(body.rich_text)}"`;
+	}
+	return `${method} ${path}:\n${json(body)}`;
+}
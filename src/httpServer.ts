@@ -0,0 +1,183 @@
+// Serve MCP over HTTP so one shared instance can serve a whole team: Streamable HTTP at /mcp,
+// the older SSE transport at /sse + /messages, and an unauthenticated /healthz. Every session
+// gets its own server instance; all other endpoints require a bearer token. Streamable HTTP
+// sessions that see no requests for `idleTimeout` and have no stream open are closed.
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { Server as HttpServer } from "node:http";
+import express, { NextFunction, Request, Response } from "express";
+
+export interface HttpOptions {
+	port: number;
+	host: string;
+	// Accepted bearer tokens (for example one per teammate)
+	tokens: string[];
+	// Milliseconds without requests after which a Streamable HTTP session without an open stream is
+	// closed (default 30 minutes)
+	idleTimeout?: number;
+}
+
+interface StreamableSession {
+	transport: StreamableHTTPServerTransport;
+	server: Server;
+	lastSeen: number;
+	// Open GET streams, which keep the session alive for notifications
+	streams: number;
+}
+
+function jsonRpcError(res: Response, status: number, message: string, code = -32000) {
+	res.status(status).json({ jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+// Express 4 doesn't catch rejected promises from async handlers
+function handleErrors(handler: (req: Request, res: Response) => Promise<void>) {
+	return (req: Request, res: Response, next: NextFunction) => {
+		handler(req, res).catch(next);
+	};
+}
+
+// Errors from the body parser and the handlers as JSON-RPC errors, instead of Express's HTML page
+function jsonErrors(error: any, req: Request, res: Response, next: NextFunction) {
+	if (res.headersSent) {
+		next(error);
+		return;
+	}
+	if (error.type === "entity.parse.failed") {
+		jsonRpcError(res, 400, "Parse error", -32700);
+	} else if (error.type === "entity.too.large") {
+		jsonRpcError(res, 413, "Request too large", -32600);
+	} else {
+		console.error(`Error handling ${req.method} ${req.path}:`, error);
+		jsonRpcError(res, 500, "Internal error", -32603);
+	}
+}
+
+function tokenMatches(given: string, tokens: string[]): boolean {
+	const candidate = Buffer.from(given);
+	return tokens.some((token) => {
+		const expected = Buffer.from(token);
+		return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+	});
+}
+
+function requireBearerToken(tokens: string[]) {
+	return (req: Request, res: Response, next: NextFunction) => {
+		const [scheme, token] = (req.headers.authorization || "").split(" ");
+		if (scheme?.toLowerCase() !== "bearer" || !token || !tokenMatches(token, tokens)) {
+			res.setHeader("WWW-Authenticate", 'Bearer realm="notion-mcp"');
+			jsonRpcError(res, 401, "Unauthorized: a valid bearer token is required");
+			return;
+		}
+		next();
+	};
+}
+
+export function startHttpServer(createServer: () => Server, { port, host, tokens, idleTimeout = 30 * 60 * 1000 }: HttpOptions): Promise<HttpServer> {
+	if (tokens.length === 0) {
+		throw new Error("HTTP mode needs at least one token in NOTION_MCP_AUTH_TOKENS");
+	}
+
+	const app = express();
+	const streamable = new Map<string, StreamableSession>();
+	const sse = new Map<string, SSEServerTransport>();
+
+	app.get("/healthz", (_req, res) => {
+		res.json({ status: "ok", sessions: streamable.size + sse.size });
+	});
+
+	app.use(requireBearerToken(tokens));
+	app.use(express.json({ limit: "4mb" }));
+
+	// Streamable HTTP: a session starts with an initialize request and is then addressed by its
+	// Mcp-Session-Id header
+	app.post("/mcp", handleErrors(async (req, res) => {
+		const sessionId = req.headers["mcp-session-id"] as string | undefined;
+		let session = sessionId ? streamable.get(sessionId) : undefined;
+
+		if (!session) {
+			if (sessionId || !isInitializeRequest(req.body)) {
+				jsonRpcError(res, sessionId ? 404 : 400, sessionId ? "Session not found" : "Bad Request: no valid session ID provided");
+				return;
+			}
+			const server = createServer();
+			const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+				sessionIdGenerator: () => randomUUID(),
+				onsessioninitialized: (id) => {
+					streamable.set(id, created);
+				},
+			});
+			const created: StreamableSession = { transport, server, lastSeen: Date.now(), streams: 0 };
+			transport.onclose = () => {
+				if (transport.sessionId) streamable.delete(transport.sessionId);
+			};
+			await server.connect(transport);
+			session = created;
+		}
+
+		session.lastSeen = Date.now();
+		await session.transport.handleRequest(req, res, req.body);
+	}));
+
+	// Server-to-client stream (GET) and session termination (DELETE)
+	const handleSessionRequest = handleErrors(async (req, res) => {
+		const session = streamable.get(req.headers["mcp-session-id"] as string);
+		if (!session) {
+			jsonRpcError(res, 404, "Session not found");
+			return;
+		}
+		session.lastSeen = Date.now();
+		if (req.method === "GET") {
+			session.streams++;
+			res.on("close", () => {
+				session.streams--;
+				session.lastSeen = Date.now();
+			});
+		}
+		await session.transport.handleRequest(req, res);
+	});
+	app.get("/mcp", handleSessionRequest);
+	app.delete("/mcp", handleSessionRequest);
+
+	// Older clients: an SSE stream for server messages, with client messages POSTed to /messages
+	app.get("/sse", handleErrors(async (_req, res) => {
+		const transport = new SSEServerTransport("/messages", res);
+		sse.set(transport.sessionId, transport);
+		res.on("close", () => {
+			sse.delete(transport.sessionId);
+		});
+		await createServer().connect(transport);
+	}));
+
+	app.post("/messages", handleErrors(async (req, res) => {
+		const transport = sse.get(req.query.sessionId as string);
+		if (!transport) {
+			jsonRpcError(res, 404, "Session not found");
+			return;
+		}
+		await transport.handlePostMessage(req, res, req.body);
+	}));
+
+	app.use(jsonErrors);
+
+	// Close sessions whose clients went away without ending them; closing the server closes its transport
+	const sweep = setInterval(() => {
+		const cutoff = Date.now() - idleTimeout;
+		for (const [id, session] of streamable) {
+			if (session.streams === 0 && session.lastSeen < cutoff) {
+				streamable.delete(id);
+				session.server.close().catch((error) => console.error(`Error closing idle session ${id}:`, error));
+			}
+		}
+	}, Math.min(idleTimeout, 60_000));
+	sweep.unref();
+
+	return new Promise((resolve, reject) => {
+		const server = app.listen(port, host, () => resolve(server));
+		server.on("error", reject);
+		server.on("close", () => clearInterval(sweep));
+	});
+}
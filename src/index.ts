@@ -1,14 +1,78 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-import { Client } from "@notionhq/client";
+import {
+	CallToolRequestSchema,
+	CallToolResult,
+	ErrorCode,
+	GetPromptRequestSchema,
+	ListPromptsRequestSchema,
+	ListResourcesRequestSchema,
+	ListResourceTemplatesRequestSchema,
+	ListToolsRequestSchema,
+	McpError,
+	ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
 import { z } from "zod";
-
-// Initialize Notion client
-const notion = new Client({
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { Access, AccessPolicy, loadAccessPolicy } from "./accessPolicy.js";
+import { Ancestry } from "./ancestry.js";
+import { AuditedClient, AuditLog, AuditOutcome, sanitizeArguments, trackRequests } from "./auditLog.js";
+import { BlockChangeLog } from "./blockChanges.js";
+import { mergeBlocks } from "./blockMerge.js";
+import { isRecreatable, toBlockRequest } from "./blockRequests.js";
+import { appendBlocks, BlockWriteError } from "./blockWriter.js";
+import { blocksToMarkdown, NotionBlock } from "./blocksToMarkdown.js";
+import { Change, ChangeFeed, ChangePoller } from "./changeFeed.js";
+import { describePlan, planMigration, removesData } from "./databaseMigration.js";
+import { describeRequest, dryRun } from "./dryRun.js";
+import { databaseProperties, databasePropertyUpdates, describeSchemaIssues, relatedDatabases } from "./databaseSchema.js";
+import { startHttpServer } from "./httpServer.js";
+import { paginate, titleOf } from "./notionObjects.js";
+import { PageExporter } from "./pageExport.js";
+import { BUILT_IN_PROMPTS, EmbeddedResource, loadPromptTemplates, mergePromptTemplates, PromptArgumentError, renderPrompt } from "./prompts.js";
+import { PropertyCoercer, toPropertyRequest } from "./propertyCoercion.js";
+import { defaultColumns, formatRows, propertyValue, RowFormat } from "./propertyValues.js";
+import { compileFilter, compileSorts } from "./queryExpression.js";
+import { PageSnapshot, SnapshotStore } from "./snapshotStore.js";
+import { diffLines } from "./textDiff.js";
+import { describeError, errorResult, ToolError } from "./toolErrors.js";
+import { markdownToBlocks } from "./markdownToBlocks.js";
+
+// Initialize Notion client; every request is paced and retried by the limiter, writes are only
+// recorded during dry runs, and request IDs are noted for the audit log
+const notion = new AuditedClient({
 	auth: process.env.NOTION_API_KEY,
 });
 
+// With NOTION_DRY_RUN set, write tools only report what they would change unless called with dryRun: false
+const dryRunByDefault = /^(1|true|yes)$/i.test(process.env.NOTION_DRY_RUN || "");
+
+// Parents of pages, databases and blocks, shared by the change feed and the access policy
+const ancestry = new Ancestry(notion);
+
+const changeFeed = new ChangeFeed(notion, ancestry);
+
+// Everything shared with the integration is allowed unless NOTION_ACCESS_POLICY names a policy file
+let accessPolicy = new AccessPolicy(ancestry);
+
+// Pages are snapshotted here before this server changes them
+const snapshots = new SnapshotStore(
+	process.env.NOTION_SNAPSHOT_DIR || join(homedir(), ".notion-mcp", "snapshots"),
+	Number(process.env.NOTION_SNAPSHOT_LIMIT || 50),
+);
+
+// Every tool call is recorded here
+const auditLog = new AuditLog(
+	process.env.NOTION_AUDIT_LOG || join(homedir(), ".notion-mcp", "audit.jsonl"),
+	Number(process.env.NOTION_AUDIT_LOG_MAX_MB || 10) * 1024 * 1024,
+	Number(process.env.NOTION_AUDIT_LOG_FILES || 5),
+);
+
+const dryRunArgument = z.boolean().optional().describe("Don't change anything; instead return the requests that would be sent (blocks to delete and append, property payloads, schema changes) for review. Defaults to the server's NOTION_DRY_RUN setting");
+
 // Validation schemas
 const schemas = {
 	notionTitle: z.object({
@@ -38,22 +102,64 @@ const schemas = {
 		),
 	}),
 
+	// Tool arguments; the descriptions are part of the JSON schemas advertised to clients
 	toolInputs: {
 		searchPages: z.object({
-			query: z.string(),
+			query: z.string().describe("Search query"),
+			startCursor: z.string().optional().describe("Cursor from a previous call's next_cursor to continue from"),
+			pageSize: z.number().int().min(1).max(100).default(10).describe("Number of results per request (max 100, default 10)"),
+			fetchAll: z.boolean().default(false).describe("Keep fetching pages until all results are collected (up to maxResults)"),
+			maxResults: z.number().int().min(1).max(10000).default(500).describe("Maximum number of results to collect with fetchAll (default 500)"),
 		}),
 		readPage: z.object({
-			pageId: z.string(),
+			pageId: z.string().describe("ID of the page to read"),
+			maxDepth: z.number().int().min(0).max(10).default(5).describe("How many levels of nested blocks (toggles, list items, columns, synced blocks) to descend into. 0 reads top-level blocks only (default 5, max 10)"),
 		}),
 		createPage: z.object({
-			title: z.string().optional(),
-			content: z.string().optional(),
-			parentPageId: z.string(),
-			properties: z.record(z.any()).optional()
+			title: z.string().optional().describe("Page title (optional)"),
+			content: z.string().optional().describe("Page content in markdown format (optional)"),
+			parentPageId: z.string().describe("ID of the parent page where this page will be created"),
+			properties: z.record(z.any()).optional().describe("Properties for database items, by property name (optional). Simple values are converted using the database schema: text, numbers, true/false, select/status option names, arrays or comma-separated lists for multi-select, dates like 2026-11-01 (or 'start → end'), people by email or name, relations by page ID or title, file URLs. Raw Notion property values are also accepted"),
+			dryRun: dryRunArgument,
 		}),
 		updatePage: z.object({
-			pageId: z.string(),
-			content: z.string(),
+			pageId: z.string().describe("ID of the page to update"),
+			content: z.string().describe("New content in markdown format"),
+			mode: z.enum(["replace", "append", "merge"]).default("replace").describe("Update mode: replace all content, append to existing, or merge (make the page match the new content, updating changed blocks in place so unchanged blocks keep their IDs and comments)"),
+			dryRun: dryRunArgument,
+		}),
+		retrieveComments: z.object({
+			pageId: z.string().describe("ID of the page"),
+			startCursor: z.string().optional().describe("Pagination cursor"),
+			pageSize: z.number().int().min(1).max(100).optional().describe("Number of comments to retrieve (max 100)"),
+		}),
+		addComment: z.object({
+			pageId: z.string().describe("ID of the page to comment on"),
+			content: z.string().describe("Comment text"),
+			dryRun: dryRunArgument,
+		}),
+		createDatabase: z.object({
+			parentPageId: z.string().describe("ID of the parent page"),
+			title: z.string().describe("Database title"),
+			properties: z.record(z.any()).describe("Database schema properties by name, each with its type's configuration, e.g. {\"Name\": {\"title\": {}}, \"Due\": {\"date\": {}}}. Exactly one property must be the title"),
+			dryRun: dryRunArgument,
+		}),
+		queryDatabase: z.object({
+			databaseId: z.string().describe("ID of the database"),
+			filter: z.record(z.any()).optional().describe("Filter conditions"),
+			sort: z.record(z.any()).optional().describe("Sort conditions"),
+			where: z.string().optional().describe("Filter expression checked against the database schema, e.g. Status = \"Done\" and (Due < 2026-11-01 or Tags contains \"infra\"). Operators: = != < <= > >= contains, does not contain, starts with, ends with, is empty, is not empty. Quote property names that contain operator words. Combined with `filter` using and"),
+			orderBy: z.union([z.string(), z.array(z.string())]).optional().describe("Sorts such as \"Due desc, Name\" (ascending unless desc is given). created_time / last_edited_time sort by page timestamps. Replaces `sort`"),
+			startCursor: z.string().optional().describe("Cursor from a previous call's next_cursor to continue from"),
+			pageSize: z.number().int().min(1).max(100).default(100).describe("Number of rows per request (max 100, default 100)"),
+			fetchAll: z.boolean().default(false).describe("Keep fetching pages until all rows are collected (up to maxRows)"),
+			maxRows: z.number().int().min(1).max(10000).default(1000).describe("Maximum number of rows to collect with fetchAll (default 1000)"),
+			format: z.enum(["markdown", "csv", "json"]).default("markdown").describe("Output format for the rows: Markdown table (default), CSV or compact JSON. Property values are flattened to plain values"),
+			columns: z.array(z.string()).optional().describe("Property names to include, in order (\"id\" is the row's page ID). Defaults to all properties"),
+		}),
+		updateBlock: z.object({
+			blockId: z.string().describe("ID of the block to update"),
+			content: z.string().describe("New content for the block"),
 			type: z.enum([
 				"paragraph",
 				"heading_1",
@@ -61,363 +167,367 @@ const schemas = {
 				"heading_3",
 				"bulleted_list_item",
 				"numbered_list_item",
-				"to_do",
-				"image"
-			]).optional(),
-			mode: z.enum(["replace", "append", "merge"]).default("replace"),  // Add this
-			position: z.enum(["start", "end"]).default("end")                 // Add this
+			]).default("paragraph").describe("Type of block"),
+			dryRun: dryRunArgument,
+		}),
+		deleteBlock: z.object({
+			blockId: z.string().describe("ID of the block to delete"),
+			dryRun: dryRunArgument,
+		}),
+		updateDatabaseItem: z.object({
+			pageId: z.string().describe("ID of the database item (page) to update"),
+			properties: z.record(z.any()).describe("Properties to update, by property name. Accepts the same simple values as create_page (option names, dates, people by email or name, relations by title) or raw Notion property values"),
+			dryRun: dryRunArgument,
 		}),
 		retrieveDatabase: z.object({
-			databaseId: z.string(),
+			databaseId: z.string().describe("ID of the database to retrieve"),
 		}),
 		updateDatabase: z.object({
-			databaseId: z.string(),
-			title: z.string().optional(),
-			description: z.string().optional(),
-			properties: z.record(z.any()).optional(),
+			databaseId: z.string().describe("ID of the database to update"),
+			title: z.string().optional().describe("New title for the database"),
+			description: z.string().optional().describe("New description for the database"),
+			properties: z.record(z.any()).optional().describe("Properties schema to update, by current name or ID. A property can be a type configuration, {\"name\": \"New name\"} to rename it or null to remove it"),
+			dryRun: dryRunArgument,
 		}),
-	},
-
-	databaseProperties: z.record(z.union([
-		z.object({ title: z.object({}) }),
-		z.object({ rich_text: z.object({}) }),
-		z.object({ number: z.object({ format: z.string().optional() }) }),
-		z.object({
-			select: z.object({
-				options: z.array(
-					z.object({
-						name: z.string(),
-						color: z.string().optional()
-					})
-				).optional()
-			})
+		migrateDatabase: z.object({
+			databaseId: z.string().describe("ID of the database to migrate"),
+			properties: z.record(z.any()).describe("The complete desired schema, in the same form as create_database's properties. Properties missing from it are removed"),
+			renames: z.record(z.string()).optional().describe("Current property name -> desired property name, for renamed properties (optional; properties carrying the id of an existing property and a renamed title are detected automatically)"),
+			dryRun: dryRunArgument,
+			allowRemovals: z.boolean().default(false).describe("Allow the plan to remove properties or select options, or to retype properties in ways that lose values that don't convert (default false)"),
 		}),
-		z.object({
-			multi_select: z.object({
-				options: z.array(
-					z.object({
-						name: z.string(),
-						color: z.string().optional()
-					})
-				).optional()
-			})
+		listPageHistory: z.object({
+			pageId: z.string().describe("ID of the page"),
+		}),
+		diffPageVersions: z.object({
+			pageId: z.string().describe("ID of the page"),
+			from: z.string().optional().describe("Snapshot ID to compare from (default: the latest snapshot)"),
+			to: z.string().default("current").describe("Snapshot ID to compare to, or \"current\" for the page as it is now (default)"),
+		}),
+		revertPage: z.object({
+			pageId: z.string().describe("ID of the page to revert"),
+			snapshotId: z.string().describe("ID of the snapshot to restore, from list_page_history"),
+			dryRun: dryRunArgument,
+		}),
+		listChanges: z.object({
+			since: z.string().datetime({ offset: true }).optional().describe("ISO timestamp to list changes after (default: the last 24 hours)"),
+			cursor: z.string().optional().describe("Cursor from a previous call; takes precedence over since"),
+			rootId: z.string().optional().describe("Only include rows of this database, or pages nested under this page (optional)"),
+			limit: z.number().int().min(1).max(500).default(100).describe("Maximum number of changes to return (default 100, max 500)"),
 		}),
-		z.object({ date: z.object({}) }),
-		z.object({ checkbox: z.object({}) })
-	])),
+		getAuditLog: z.object({
+			limit: z.number().int().min(1).max(500).default(50).describe("Maximum number of entries to return (default 50, max 500)"),
+			tool: z.string().optional().describe("Only calls of this tool"),
+			outcome: z.enum(["success", "error", "dry_run"]).optional().describe("Only calls with this outcome"),
+			since: z.string().datetime({ offset: true }).optional().describe("Only calls made after this ISO timestamp"),
+			targetId: z.string().optional().describe("Only calls that targeted this page, database or block"),
+		}),
+	},
 };
 
-// Add this after your schemas
-function formatError(error: any): string {
-	console.error('Full error:', JSON.stringify(error, null, 2));
+// Fetch every child of a block, following next_cursor until the list is exhausted
+async function listAllBlockChildren(blockId: string): Promise<NotionBlock[]> {
+	const { results } = await paginate(
+		(start_cursor, page_size) => notion.blocks.children.list({ block_id: blockId, start_cursor, page_size }),
+		{ fetchAll: true },
+	);
+	return results as NotionBlock[];
+}
+
+// Fetch a block's children and recurse into nested blocks, attaching them as `children`.
+// Child pages and databases are separate documents and are never descended into;
+// table rows are always fetched since a table is meaningless without them.
+async function fetchBlockTree(blockId: string, maxDepth: number): Promise<NotionBlock[]> {
+	const blocks = await listAllBlockChildren(blockId);
+
+	for (const block of blocks) {
+		if (!block.has_children || block.type === "child_page" || block.type === "child_database") {
+			continue;
+		}
+		if (maxDepth > 0 || block.type === "table") {
+			block.children = await fetchBlockTree(block.id, Math.max(maxDepth - 1, 0));
+		}
+	}
+
+	return blocks;
+}
+
+// A page as Markdown: its title, content and the child pages/databases it contains
+async function renderPage(pageId: string, maxDepth: number): Promise<string> {
+	const [blocks, pageResponse] = await Promise.all([
+		fetchBlockTree(pageId, maxDepth),
+		notion.pages.retrieve({ page_id: pageId }),
+	]);
+
+	const page = schemas.notionPage.parse(pageResponse);
+
+	const title = titleOf(page);
+
+	// Collect child pages/databases, wherever they are nested
+	const childPages: string[] = [];
+	const childDatabases: string[] = [];
+
+	const collectChildDocuments = (blocks: NotionBlock[]) => {
+		for (const block of blocks) {
+			if (block.type === "child_page") {
+				childPages.push(`📄 ${block.child_page.title || "Untitled Page"} (ID: ${block.id.replace(/-/g, "")})`);
+			} else if (block.type === "child_database") {
+				childDatabases.push(`📊 ${block.child_database.title || "Untitled Database"} (ID: ${block.id.replace(/-/g, "")})`);
+			} else if (block.children) {
+				collectChildDocuments(block.children);
+			}
+		}
+	};
+
+	collectChildDocuments(blocks);
+	const markdown = blocksToMarkdown(blocks, { omitChildDocuments: true });
+
+	// Combine all content
+	let output = `# ${title}\n\n`;
 
-	if (error.status === 404) {
-		return `Resource not found. Please check the provided ID. Details: ${error.body?.message || error.message}`;
+	if (markdown.trim()) {
+		output += markdown + "\n\n";
 	}
-	if (error.status === 401) {
-		return `Authentication error. Please check your API token. Details: ${error.body?.message || error.message}`;
+
+	if (childPages.length > 0) {
+		output += "## Child Pages\n" + childPages.join("\n") + "\n\n";
 	}
-	if (error.status === 400) {
-		return `Bad request. Details: ${error.body?.message || error.message}`;
+
+	if (childDatabases.length > 0) {
+		output += "## Child Databases\n" + childDatabases.join("\n") + "\n";
 	}
-	if (error.code) {
-		return `API Error (${error.code}): ${error.body?.message || error.message}`;
+
+	return output.trim();
+}
+
+function describeChange(change: Change): string {
+	const kind = change.databaseId ? `row in database ${change.databaseId}` : change.object;
+	return `- ${change.lastEditedTime} ${kind} "${change.title}" (ID: ${change.id}) edited by ${change.lastEditedBy}`;
+}
+
+// Save a page's properties and content before changing it. `blocks` can be passed if the
+// caller already fetched the whole tree
+async function snapshotPage(pageId: string, reason: string, blocks?: NotionBlock[]): Promise<PageSnapshot> {
+	const [page, tree]: [any, NotionBlock[]] = await Promise.all([
+		notion.pages.retrieve({ page_id: pageId }),
+		blocks ?? fetchBlockTree(pageId, Infinity),
+	]);
+	return snapshots.save({ pageId: page.id, reason, properties: page.properties, blocks: tree });
+}
+
+// The page a block is on
+async function pageOfBlock(blockId: string): Promise<string> {
+	let block: any = await notion.blocks.retrieve({ block_id: blockId });
+	while (block.parent?.type === "block_id") {
+		block = await notion.blocks.retrieve({ block_id: block.parent.block_id });
+	}
+	if (block.parent?.type !== "page_id") {
+		throw new ToolError("validation", `Block ${blockId} is not on a page`);
 	}
-	return error.body?.message || error.message || "An unknown error occurred";
+	return block.parent.page_id;
 }
 
-// Tool definitions
-const TOOL_DEFINITIONS = [
-	{
-		name: "search_pages",
+// A version of a page as text for diffing: its settable properties, then its content
+function versionText(properties: Record<string, any>, blocks: NotionBlock[]): string {
+	const lines = Object.entries(properties)
+		.filter(([, property]) => toPropertyRequest(property) !== null)
+		.map(([name, property]) => {
+			const value = propertyValue(property);
+			return `${name}: ${Array.isArray(value) ? value.join(", ") : value ?? ""}`;
+		});
+	return [...lines.sort(), "---", blocksToMarkdown(blocks)].join("\n");
+}
+
+// Properties to write to turn `current` back into `desired`, keyed by property ID so renamed
+// properties are still matched
+function propertyChanges(current: Record<string, any>, desired: Record<string, any>): Record<string, any> {
+	const changes: Record<string, any> = {};
+	for (const property of Object.values(desired)) {
+		const target = toPropertyRequest(property);
+		const existing = Object.values(current).find((candidate) => candidate.id === property.id);
+		if (target && existing && JSON.stringify(toPropertyRequest(existing)) !== JSON.stringify(target)) {
+			changes[property.id] = target;
+		}
+	}
+	return changes;
+}
+
+// Undo a failed multi-step block change and report what was and wasn't restored
+async function rollbackResult(error: unknown, log: BlockChangeLog, context: string) {
+	const cause = error instanceof BlockWriteError ? error.originalError : error;
+	const report = await log.rollback();
+
+	let details = `Rolled back ${report.undone} changes.`;
+	if (report.failures.length > 0) {
+		details += ` Could not undo: ${report.failures.join("; ")}.`;
+	}
+	if (report.lost.length > 0) {
+		details += `\n\nThese deleted blocks could not be restored; their content was:\n\n${blocksToMarkdown(report.lost)}`;
+	}
+	return errorResult(cause, context, details);
+}
+
+// Relations may only be looked up in and linked to databases the access policy allows
+function checkRelatedDatabase(databaseId: string): Promise<void> {
+	return accessPolicy.assertAccess("read", [databaseId]);
+}
+
+async function assertRelationAccess(properties: Record<string, any>): Promise<void> {
+	for (const { databaseId, access } of relatedDatabases(properties)) {
+		await accessPolicy.assertAccess(access, [databaseId]);
+	}
+}
+
+interface ToolSpec {
+	description: string;
+	input: z.ZodTypeAny;
+	// Whether the tool only reads, for read-only access policies
+	access: Access;
+	// The pages, databases or blocks a call acts on, checked against the access policy
+	targets?: (args: any) => string[];
+}
+
+// Tools, with the input schema each call is validated against
+const TOOLS = {
+	search_pages: {
 		description: "Search through Notion pages",
-		inputSchema: {
-			type: "object",
-			properties: {
-				query: {
-					type: "string",
-					description: "Search query",
-				},
-			},
-			required: ["query"],
-		},
+		input: schemas.toolInputs.searchPages,
+		access: "read",
 	},
-	{
-		name: "read_page",
+	read_page: {
 		description: "Read a regular page's content (not for databases - use retrieve_database for databases). Shows block IDs with their types (needed for block operations)",
-		inputSchema: {
-			type: "object",
-			properties: {
-				pageId: {
-					type: "string",
-					description: "ID of the page to read",
-				},
-			},
-			required: ["pageId"],
-		},
+		input: schemas.toolInputs.readPage,
+		access: "read",
+		targets: ({ pageId }: { pageId: string }) => [pageId],
 	},
-	{
-		name: "create_page",
+	create_page: {
 		description: "Create a new page or database item. For database items, include 'properties' matching database schema. For pages, use 'title' and 'content'",
-		inputSchema: {
-			type: "object",
-			properties: {
-				title: {
-					type: "string",
-					description: "Page title (optional)",
-				},
-				content: {
-					type: "string",
-					description: "Page content in markdown format (optional)",
-				},
-				parentPageId: {
-					type: "string",
-					description: "ID of the parent page where this page will be created",
-				},
-				properties: {
-					type: "object",
-					description: "Additional properties for database items (optional)",
-				}
-			},
-			required: ["parentPageId"],
-		},
+		input: schemas.toolInputs.createPage,
+		access: "write",
+		targets: ({ parentPageId }: { parentPageId: string }) => [parentPageId],
 	},
-	{
-		name: "update_page",
+	update_page: {
 		description: "Update an existing Notion page",
-		inputSchema: {
-			type: "object",
-			properties: {
-				pageId: {
-					type: "string",
-					description: "ID of the page to update",
-				},
-				content: {
-					type: "string",
-					description: "New content to append",
-				},
-				type: {
-					type: "string",
-					enum: ["paragraph", "task", "todo", "heading", "image"],
-					description: "Type of content to append",
-					optional: true,
-				},
-				mode: {                                                    // Add this
-					type: "string",
-					enum: ["replace", "append", "merge"],
-					description: "Update mode: replace all content, append to existing, or merge",
-					optional: true,
-				},
-				position: {                                               // Add this
-					type: "string",
-					enum: ["start", "end"],
-					description: "Position for merge mode: start or end",
-					optional: true,
-				}
-			},
-			required: ["pageId", "content"],
-		},
+		input: schemas.toolInputs.updatePage,
+		access: "write",
+		targets: ({ pageId }: { pageId: string }) => [pageId],
 	},
-	{
-		name: "retrieve_comments",
+	retrieve_comments: {
 		description: "Get all comments from a page",
-		inputSchema: {
-			type: "object",
-			properties: {
-				pageId: {
-					type: "string",
-					description: "ID of the page",
-				},
-				startCursor: {
-					type: "string",
-					description: "Pagination cursor",
-				},
-				pageSize: {
-					type: "number",
-					description: "Number of comments to retrieve (max 100)",
-				},
-			},
-			required: ["pageId"],
-		},
+		input: schemas.toolInputs.retrieveComments,
+		access: "read",
+		targets: ({ pageId }: { pageId: string }) => [pageId],
 	},
-	{
-		name: "add_comment",
+	add_comment: {
 		description: "Add a comment to a page",
-		inputSchema: {
-			type: "object",
-			properties: {
-				pageId: {
-					type: "string",
-					description: "ID of the page to comment on",
-				},
-				content: {
-					type: "string",
-					description: "Comment text",
-				},
-			},
-			required: ["pageId", "content"],
-		},
+		input: schemas.toolInputs.addComment,
+		access: "write",
+		targets: ({ pageId }: { pageId: string }) => [pageId],
 	},
-	{
-		name: "create_database",
+	create_database: {
 		description: "Create a new database in a page",
-		inputSchema: {
-			type: "object",
-			properties: {
-				parentPageId: {
-					type: "string",
-					description: "ID of the parent page",
-				},
-				title: {
-					type: "string",
-					description: "Database title",
-				},
-				properties: {
-					type: "object",
-					description: "Database schema properties",
-				},
-			},
-			required: ["parentPageId", "title", "properties"],
-		},
+		input: schemas.toolInputs.createDatabase,
+		access: "write",
+		targets: ({ parentPageId }: { parentPageId: string }) => [parentPageId],
 	},
-	{
-		name: "query_database",
+	query_database: {
 		description: "Query a database",
-		inputSchema: {
-			type: "object",
-			properties: {
-				databaseId: {
-					type: "string",
-					description: "ID of the database",
-				},
-				filter: {
-					type: "object",
-					description: "Filter conditions",
-				},
-				sort: {
-					type: "object",
-					description: "Sort conditions",
-				},
-			},
-			required: ["databaseId"],
-		},
+		input: schemas.toolInputs.queryDatabase,
+		access: "read",
+		targets: ({ databaseId }: { databaseId: string }) => [databaseId],
 	},
-	{
-		name: "update_block",
+	update_block: {
 		description: "Update a block's content (must use same type as original block, use read_page first to get block IDs and types)",
-		inputSchema: {
-			type: "object",
-			properties: {
-				blockId: {
-					type: "string",
-					description: "ID of the block to update",
-				},
-				content: {
-					type: "string",
-					description: "New content for the block",
-				},
-				type: {
-					type: "string",
-					enum: [
-						"paragraph",
-						"heading_1",
-						"heading_2",
-						"heading_3",
-						"bulleted_list_item",
-						"numbered_list_item",
-					],
-					description: "Type of block",
-				},
-			},
-			required: ["blockId", "content"],
-		},
+		input: schemas.toolInputs.updateBlock,
+		access: "write",
+		targets: ({ blockId }: { blockId: string }) => [blockId],
 	},
-	{
-		name: "delete_block",
+	delete_block: {
 		description: "Delete a specific block from a page",
-		inputSchema: {
-			type: "object",
-			properties: {
-				blockId: {
-					type: "string",
-					description: "ID of the block to delete",
-				},
-			},
-			required: ["blockId"],
-		},
+		input: schemas.toolInputs.deleteBlock,
+		access: "write",
+		targets: ({ blockId }: { blockId: string }) => [blockId],
 	},
-	{
-		name: "update_database_item",
-		description: "Update a database item's properties (use query_database first to see required property structure)",
-		inputSchema: {
-			type: "object",
-			properties: {
-				pageId: {
-					type: "string",
-					description: "ID of the database item (page) to update",
-				},
-				properties: {
-					type: "object",
-					description: "Properties to update",
-				},
-			},
-			required: ["pageId", "properties"],
-		},
+	update_database_item: {
+		description: "Update a database item's properties (use retrieve_database first to see the property types, and query_database to find item IDs)",
+		input: schemas.toolInputs.updateDatabaseItem,
+		access: "write",
+		targets: ({ pageId }: { pageId: string }) => [pageId],
 	},
-	// Add these to TOOL_DEFINITIONS
-	{
-		name: "retrieve_database",
+	retrieve_database: {
 		description: "Retrieve a database's metadata",
-		inputSchema: {
-			type: "object",
-			properties: {
-				databaseId: {
-					type: "string",
-					description: "ID of the database to retrieve",
-				},
-			},
-			required: ["databaseId"],
-		},
+		input: schemas.toolInputs.retrieveDatabase,
+		access: "read",
+		targets: ({ databaseId }: { databaseId: string }) => [databaseId],
 	},
-	{
-		name: "update_database",
+	update_database: {
 		description: "Update a database's properties",
-		inputSchema: {
-			type: "object",
-			properties: {
-				databaseId: {
-					type: "string",
-					description: "ID of the database to update",
-				},
-				title: {
-					type: "string",
-					description: "New title for the database",
-				},
-				description: {
-					type: "string",
-					description: "New description for the database",
-				},
-				properties: {
-					type: "object",
-					description: "Properties schema to update",
-				},
-			},
-			required: ["databaseId"],
-		},
+		input: schemas.toolInputs.updateDatabase,
+		access: "write",
+		targets: ({ databaseId }: { databaseId: string }) => [databaseId],
 	},
-];
+	migrate_database: {
+		description: "Bring a database's schema in line with a desired schema: shows the plan (added, renamed, retyped, changed and removed properties and select options) and applies it with a single update. Use dryRun to only see the plan",
+		input: schemas.toolInputs.migrateDatabase,
+		access: "write",
+		targets: ({ databaseId }: { databaseId: string }) => [databaseId],
+	},
+	list_page_history: {
+		description: "List the snapshots this server saved of a page before changing it (with update_page, update_block, delete_block, update_database_item or revert_page), newest first",
+		input: schemas.toolInputs.listPageHistory,
+		access: "read",
+		targets: ({ pageId }: { pageId: string }) => [pageId],
+	},
+	diff_page_versions: {
+		description: "Show what changed in a page between two snapshots, or between a snapshot and the page as it is now, as a line diff of its properties and Markdown content",
+		input: schemas.toolInputs.diffPageVersions,
+		access: "read",
+		targets: ({ pageId }: { pageId: string }) => [pageId],
+	},
+	revert_page: {
+		description: "Restore a page's content and properties to a snapshot from list_page_history. Unchanged blocks keep their IDs; the page is snapshotted first, so the revert can be reverted too",
+		input: schemas.toolInputs.revertPage,
+		access: "write",
+		targets: ({ pageId }: { pageId: string }) => [pageId],
+	},
+	list_changes: {
+		description: "List pages, database rows and databases edited since a time or cursor, oldest first, with who edited them. Pass the returned cursor back to get only later changes",
+		input: schemas.toolInputs.listChanges,
+		access: "read",
+		targets: ({ rootId }: { rootId?: string }) => (rootId ? [rootId] : []),
+	},
+	get_audit_log: {
+		description: "List recent tool calls made through this server, newest first: the tool, its arguments (long values shortened), the pages it targeted, the Notion request IDs, the outcome and the duration",
+		input: schemas.toolInputs.getAuditLog,
+		access: "read",
+	},
+} satisfies Record<string, ToolSpec>;
+
+type ToolName = keyof typeof TOOLS;
+type ToolArgs<Name extends ToolName> = z.infer<(typeof TOOLS)[Name]["input"]>;
+
+// The advertised JSON schemas are generated from the input schemas, so they can't drift apart
+const TOOL_DEFINITIONS = Object.entries(TOOLS).map(([name, { description, input }]) => {
+	const { $schema, ...inputSchema } = zodToJsonSchema(input, { $refStrategy: "none" });
+	return { name, description, inputSchema: inputSchema as { type: "object"; [key: string]: unknown } };
+});
 
-// Tool implementation handlers
-const toolHandlers = {
-	async search_pages(args: unknown) {
-		const { query } = schemas.toolInputs.searchPages.parse(args);
+// Tool implementation handlers; they get arguments already validated against the tool's input schema
+const toolHandlers: { [Name in ToolName]: (args: ToolArgs<Name>) => Promise<CallToolResult> } = {
+	async search_pages({ query, startCursor, pageSize, fetchAll, maxResults }) {
 		console.error(`Searching for: ${query}`);
 
-		const response = await notion.search({
-			query,
-			filter: { property: "object", value: "page" },
-			page_size: 10,
-		});
+		const response = await paginate(
+			(start_cursor, page_size) => notion.search({
+				query,
+				filter: { property: "object", value: "page" },
+				start_cursor,
+				page_size,
+			}),
+			{ startCursor, pageSize, fetchAll, maxResults },
+		);
+		// Pages outside the access policy's roots are left out
+		response.results = await accessPolicy.visible(response.results);
 
 		if (!response.results || response.results.length === 0) {
 			return {
@@ -458,127 +568,50 @@ const toolHandlers = {
 			content: [
 				{
 					type: "text" as const,
-					text: `Found ${response.results.length} pages matching "${query}":\n\n${formattedResults}`,
+					text: `Found ${response.results.length} pages matching "${query}":\n\n${formattedResults}` +
+						(response.nextCursor ? `\n\nMore results available. next_cursor: ${response.nextCursor}` : ""),
 				},
 			],
 		};
 	},
 
-	async read_page(args: unknown) {
-		const { pageId } = schemas.toolInputs.readPage.parse(args);
-
+	async read_page({ pageId, maxDepth }) {
 		try {
-			const [blocksResponse, pageResponse] = await Promise.all([
-				notion.blocks.children.list({ block_id: pageId }),
-				notion.pages.retrieve({ page_id: pageId }),
-			]);
-
-			const page = schemas.notionPage.parse(pageResponse);
-
-			// Get title
-			const titleProp = Object.values(page.properties).find((prop) => prop.type === "title");
-			const title = titleProp?.type === "title" ? titleProp.title[0]?.plain_text || "Untitled" : "Untitled";
-
-			// Process blocks and collect child pages/databases
-			const childPages: string[] = [];
-			const childDatabases: string[] = [];
-			const contentBlocks: string[] = [];
-
-			for (const block of blocksResponse.results as Array<{ type: string; id: string;[key: string]: any }>) {
-				const type = block.type;
-
-				if (type === "child_page") {
-					childPages.push(`📄 ${block.child_page.title || "Untitled Page"} (ID: ${block.id.replace(/-/g, "")})`);
-					continue;
-				}
-
-				if (type === "child_database") {
-					childDatabases.push(`📊 ${block.child_database.title || "Untitled Database"} (ID: ${block.id.replace(/-/g, "")})`);
-					continue;
-				}
-
-				const textContent = block[type]?.rich_text?.map((text: any) => text.plain_text).join("") || "";
-				let formattedContent = "";
-
-				switch (type) {
-					case "paragraph":
-					case "heading_1":
-					case "heading_2":
-					case "heading_3":
-						formattedContent = textContent;
-						break;
-					case "bulleted_list_item":
-					case "numbered_list_item":
-						formattedContent = "• " + textContent;
-						break;
-					case "to_do":
-						const checked = block.to_do?.checked ? "[x]" : "[ ]";
-						formattedContent = checked + " " + textContent;
-						break;
-					case "code":
-						formattedContent = "```\n" + textContent + "\n```";
-						break;
-					default:
-						formattedContent = textContent;
-				}
-
-				if (formattedContent) {
-					contentBlocks.push(formattedContent);
-				}
-			}
-
-			// Combine all content
-			let output = `# ${title}\n\n`;
-
-			if (contentBlocks.length > 0) {
-				output += contentBlocks.join("\n") + "\n\n";
-			}
-
-			if (childPages.length > 0) {
-				output += "## Child Pages\n" + childPages.join("\n") + "\n\n";
-			}
-
-			if (childDatabases.length > 0) {
-				output += "## Child Databases\n" + childDatabases.join("\n") + "\n";
-			}
+			const output = await renderPage(pageId, maxDepth);
 
 			return {
 				content: [
 					{
 						type: "text" as const,
-						text: output.trim(),
+						text: output,
 					},
 				],
 			};
 		} catch (error) {
-			console.error("Error reading page:", error);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text: formatError(error),
-					},
-				],
-			};
+			return errorResult(error, "Error reading page");
 		}
 	},
 
-	async create_page(args: unknown) {
-		const { title, content, parentPageId, properties } = args as any;
-
+	async create_page({ title, content, parentPageId, properties }) {
 		try {
 			// First try to retrieve as database to check if it's a database parent
-			let isDatabase = false;
+			let database: any;
 			try {
-				await notion.databases.retrieve({ database_id: parentPageId });
-				isDatabase = true;
+				database = await notion.databases.retrieve({ database_id: parentPageId });
 			} catch {
 				// If not a database, verify it's a valid page
 				await notion.pages.retrieve({ page_id: parentPageId });
 			}
-
-			// Set up properties based on whether it's a database or page
-			const pageProperties = isDatabase ? properties : {
+			const isDatabase = database !== undefined;
+
+			// Set up properties based on whether it's a database or page.
+			// For databases, simple values are converted using the schema and `title` fills the title property
+			const coercer = isDatabase ? new PropertyCoercer(notion, database.properties, checkRelatedDatabase) : undefined;
+			const titleProperty = coercer?.titlePropertyName();
+			const pageProperties = coercer ? await coercer.coerce({
+				...(title !== undefined && titleProperty ? { [titleProperty]: title } : {}),
+				...properties,
+			}) : {
 				title: {
 					type: "title",
 					title: [
@@ -592,183 +625,6 @@ const toolHandlers = {
 				}
 			};
 
-			// Parse content into blocks
-			const parseBlocks = (content: string) => {
-				const lines = content.split('\n');
-				const blocks: any[] = [];
-				let currentCodeBlock: any = null;
-
-				for (let i = 0; i < lines.length; i++) {
-					const line = lines[i];
-					const trimmedLine = line.trim();
-
-					// Handle code blocks
-					if (trimmedLine.startsWith('```')) {
-						if (currentCodeBlock) {
-							// End code block
-							blocks.push(currentCodeBlock);
-							currentCodeBlock = null;
-						} else {
-							// Start code block
-							const language = trimmedLine.slice(3).trim();
-							currentCodeBlock = {
-								object: "block",
-								type: "code",
-								code: {
-									rich_text: [],
-									language: language || "plain text"
-								}
-							};
-						}
-						continue;
-					}
-
-					if (currentCodeBlock) {
-						// Add line to current code block
-						currentCodeBlock.code.rich_text.push({
-							type: "text",
-							text: { content: line }
-						});
-						continue;
-					}
-
-					// Handle other block types
-					let block: any = null;
-
-					if (trimmedLine === '') {
-						block = {
-							object: "block",
-							type: "paragraph",
-							paragraph: { rich_text: [] }
-						};
-					} else if (trimmedLine.startsWith('# ')) {
-						block = {
-							object: "block",
-							type: "heading_1",
-							heading_1: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(2) }
-								}]
-							}
-						};
-					} else if (trimmedLine.startsWith('## ')) {
-						block = {
-							object: "block",
-							type: "heading_2",
-							heading_2: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(3) }
-								}]
-							}
-						};
-					} else if (trimmedLine.startsWith('### ')) {
-						block = {
-							object: "block",
-							type: "heading_3",
-							heading_3: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(4) }
-								}]
-							}
-						};
-					} else if (trimmedLine.startsWith('- [ ] ')) {
-						block = {
-							object: "block",
-							type: "to_do",
-							to_do: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(6) }
-								}],
-								checked: false
-							}
-						};
-					} else if (trimmedLine.startsWith('- [x] ')) {
-						block = {
-							object: "block",
-							type: "to_do",
-							to_do: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(6) }
-								}],
-								checked: true
-							}
-						};
-					} else if (trimmedLine.startsWith('- ')) {
-						block = {
-							object: "block",
-							type: "bulleted_list_item",
-							bulleted_list_item: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(2) }
-								}]
-							}
-						};
-					} else if (trimmedLine.startsWith('> ')) {
-						block = {
-							object: "block",
-							type: "quote",
-							quote: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(2) }
-								}]
-							}
-						};
-					} else if (trimmedLine.startsWith('---')) {
-						block = {
-							object: "block",
-							type: "divider",
-							divider: {}
-						};
-					} else if (trimmedLine.match(/^!\[.*\]\(.*\)$/)) {
-						// Image in markdown format: ![alt](url)
-						const match = trimmedLine.match(/^!\[(.*)\]\((.*)\)$/);
-						if (match) {
-							block = {
-								object: "block",
-								type: "image",
-								image: {
-									type: "external",
-									external: { url: match[2] },
-									caption: match[1] ? [{
-										type: "text",
-										text: { content: match[1] }
-									}] : []
-								}
-							};
-						}
-					} else {
-						block = {
-							object: "block",
-							type: "paragraph",
-							paragraph: {
-								rich_text: [{
-									type: "text",
-									text: { content: line }
-								}]
-							}
-						};
-					}
-
-					if (block) {
-						blocks.push(block);
-					}
-				}
-
-				// Add any remaining code block
-				if (currentCodeBlock) {
-					blocks.push(currentCodeBlock);
-				}
-
-				return blocks;
-			};
-
 			const newPage = await notion.pages.create({
 				parent: isDatabase ? {
 					type: "database_id",
@@ -778,264 +634,87 @@ const toolHandlers = {
 					page_id: parentPageId
 				},
 				properties: pageProperties,
-				children: content ? parseBlocks(content) : []
 			});
 
+			// Content is appended after the page exists so it can be split across requests
+			let written = 0;
+			try {
+				({ written } = await appendBlocks(notion, newPage.id, content ? markdownToBlocks(content) : []));
+			} catch (error) {
+				if (error instanceof BlockWriteError) {
+					return errorResult(error.originalError, `Created page with ID: ${newPage.id}, but writing its content failed after ${error.written} blocks`);
+				}
+				throw error;
+			}
+
 			return {
 				content: [
 					{
 						type: "text" as const,
-						text: `Successfully created page with ID: ${newPage.id}`,
+						text: `Successfully created page with ID: ${newPage.id} (${written} blocks written)`,
 					},
 				],
 			};
 		} catch (error) {
-			console.error("Error creating page:", error);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text: formatError(error),
-					},
-				],
-			};
+			return errorResult(error, "Error creating page");
 		}
 	},
 
-	async update_page(args: unknown) {
-		const { pageId, content: newContent, type = "paragraph", mode = "replace", position = "end" } = schemas.toolInputs.updatePage.parse(args);
+	async update_page({ pageId, content: newContent, mode, dryRun }) {
+		// Snapshot the whole tree before touching anything, so it can be restored if a later step fails
+		let snapshot: NotionBlock[];
 		try {
-			// Get existing blocks and delete them
-			const blocks = await notion.blocks.children.list({ block_id: pageId });
-			const backup = blocks.results;
-
-			// Helper to create blocks array based on content type and handle multiple lines
-			const createBlocks = (content: string, _type: string): any[] => {
-				const lines = content.split('\n');
-				const blocks: any[] = [];
-				let currentCodeBlock: any = null;
-
-				for (let i = 0; i < lines.length; i++) {
-					const line = lines[i];
-					const trimmedLine = line.trim();
-
-					// Handle code blocks
-					if (trimmedLine.startsWith('```')) {
-						if (currentCodeBlock) {
-							// End code block
-							blocks.push(currentCodeBlock);
-							currentCodeBlock = null;
-						} else {
-							// Start code block
-							const language = trimmedLine.slice(3).trim();
-							currentCodeBlock = {
-								object: "block",
-								type: "code",
-								code: {
-									rich_text: [],
-									language: language || "plain text"
-								}
-							};
-						}
-						continue;
-					}
-
-					if (currentCodeBlock) {
-						// Add line to current code block
-						currentCodeBlock.code.rich_text.push({
-							type: "text",
-							text: { content: line }
-						});
-						continue;
-					}
-
-					// Handle other block types
-					let block: any = null;
-
-					if (trimmedLine === '') {
-						block = {
-							object: "block",
-							type: "paragraph",
-							paragraph: { rich_text: [] }
-						};
-					} else if (trimmedLine.startsWith('# ')) {
-						block = {
-							object: "block",
-							type: "heading_1",
-							heading_1: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(2) }
-								}]
-							}
-						};
-					} else if (trimmedLine.startsWith('## ')) {
-						block = {
-							object: "block",
-							type: "heading_2",
-							heading_2: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(3) }
-								}]
-							}
-						};
-					} else if (trimmedLine.startsWith('### ')) {
-						block = {
-							object: "block",
-							type: "heading_3",
-							heading_3: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(4) }
-								}]
-							}
-						};
-					} else if (trimmedLine.startsWith('- [ ] ')) {
-						block = {
-							object: "block",
-							type: "to_do",
-							to_do: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(6) }
-								}],
-								checked: false
-							}
-						};
-					} else if (trimmedLine.startsWith('- [x] ')) {
-						block = {
-							object: "block",
-							type: "to_do",
-							to_do: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(6) }
-								}],
-								checked: true
-							}
-						};
-					} else if (trimmedLine.startsWith('- ')) {
-						block = {
-							object: "block",
-							type: "bulleted_list_item",
-							bulleted_list_item: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(2) }
-								}]
-							}
-						};
-					} else if (trimmedLine.startsWith('> ')) {
-						block = {
-							object: "block",
-							type: "quote",
-							quote: {
-								rich_text: [{
-									type: "text",
-									text: { content: trimmedLine.substring(2) }
-								}]
-							}
-						};
-					} else if (trimmedLine.startsWith('---')) {
-						block = {
-							object: "block",
-							type: "divider",
-							divider: {}
-						};
-					} else if (trimmedLine.match(/^!\[.*\]\(.*\)$/)) {
-						// Image in markdown format: ![alt](url)
-						const match = trimmedLine.match(/^!\[(.*)\]\((.*)\)$/);
-						if (match) {
-							block = {
-								object: "block",
-								type: "image",
-								image: {
-									type: "external",
-									external: { url: match[2] },
-									caption: match[1] ? [{
-										type: "text",
-										text: { content: match[1] }
-									}] : []
-								}
-							};
-						}
-					} else {
-						block = {
-							object: "block",
-							type: "paragraph",
-							paragraph: {
-								rich_text: [{
-									type: "text",
-									text: { content: line }
-								}]
-							}
-						};
-					}
-
-					if (block) {
-						blocks.push(block);
-					}
-				}
+			snapshot = await fetchBlockTree(pageId, Infinity);
+			if (!dryRun) {
+				await snapshotPage(pageId, `update_page (${mode})`, snapshot);
+			}
+		} catch (error) {
+			return errorResult(error, "Error updating page");
+		}
 
-				// Add any remaining code block
-				if (currentCodeBlock) {
-					blocks.push(currentCodeBlock);
+		const log = new BlockChangeLog(notion);
+		try {
+			const newBlocks = markdownToBlocks(newContent);
+			let summary: string;
+
+			if (mode === "merge") {
+				const stats = await mergeBlocks(log, pageId, snapshot, newBlocks);
+				summary = `kept ${stats.kept}, updated ${stats.updated}, inserted ${stats.inserted}, deleted ${stats.deleted} blocks`;
+				if (stats.misplaced > 0) {
+					summary += `; ${stats.misplaced} new blocks were placed just after the first block of their list instead of before it, since the API can't insert at the start and that block was kept in place`;
 				}
-
-				return blocks;
-			};
-			if (mode === "replace" || mode === "merge") {
-				if (backup.length > 0) {
-					console.warn(`Deleting ${backup.length} existing blocks`);
+			} else {
+				// Child pages/databases and uploaded files can't be recreated, so they are never deleted
+				const removable = mode === "replace" ? snapshot.filter(isRecreatable) : [];
+				if (removable.length > 0) {
+					console.warn(`Deleting ${removable.length} existing blocks`);
 				}
-				for (const block of backup) {
-					await notion.blocks.delete({ block_id: block.id });
+				for (const block of removable) {
+					const index = snapshot.indexOf(block);
+					await log.delete(block, pageId, index > 0 ? snapshot[index - 1].id : undefined);
 				}
-			} try {
-				const newBlocks = createBlocks(newContent, type);
-
-				if (mode === "merge") {
-					const mergedBlocks = position === "start"
-						? [...newBlocks, ...backup]
-						: [...backup, ...newBlocks];
-
-					await notion.blocks.children.append({
-						block_id: pageId,
-						children: mergedBlocks,
-					});
-				} else {
-					await notion.blocks.children.append({
-						block_id: pageId,
-						children: newBlocks,
-					});
+
+				const { written } = await log.insert(pageId, newBlocks);
+				summary = `${written} blocks written`;
+				const kept = snapshot.length - removable.length;
+				if (mode === "replace" && kept > 0) {
+					summary += `. Kept ${kept} blocks that can't be recreated (child pages, databases or uploaded files)`;
 				}
+			}
 
-				return {
-					content: [
-						{
-							type: "text" as const,
-							text: `Successfully updated page: ${pageId}`,
-						},
-					],
-				};
-			}catch(error){
-				throw error;
-			}}catch (error) {
-			console.error("Error updating page:", error);
 			return {
 				content: [
 					{
 						type: "text" as const,
-						text: formatError(error),
+						text: `Successfully updated page: ${pageId} (${summary})`,
 					},
 				],
 			};
+		} catch (error) {
+			return rollbackResult(error, log, "Failed to update page");
 		}
 	},
-	async add_comment(args: unknown) {
-		const { pageId, content } = args as any;
-
+	async add_comment({ pageId, content }) {
 		try {
 			const response = await notion.comments.create({
 				parent: { page_id: pageId },
@@ -1056,21 +735,11 @@ const toolHandlers = {
 				],
 			};
 		} catch (error) {
-			console.error("Error adding comment:", error);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text: `Error adding comment: ${formatError(error)}`,
-					},
-				],
-			};
+			return errorResult(error, "Error adding comment");
 		}
 	},
 
-	async retrieve_comments(args: unknown) {
-		const { pageId, startCursor, pageSize } = args as any;
-
+	async retrieve_comments({ pageId, startCursor, pageSize }) {
 		try {
 			const response = await notion.comments.list({
 				block_id: pageId,
@@ -1087,22 +756,19 @@ const toolHandlers = {
 				],
 			};
 		} catch (error) {
-			console.error("Error retrieving comments:", error);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text: `Error retrieving comments: ${formatError(error)}`,
-					},
-				],
-			};
+			return errorResult(error, "Error retrieving comments");
 		}
 	},
 
-	async create_database(args: unknown) {
-		const { parentPageId, title, properties } = args as any;
+	async create_database({ parentPageId, title, properties: rawProperties }) {
+		// Check the schema before sending it, so problems are reported per property
+		const properties = databaseProperties.safeParse(rawProperties);
+		if (!properties.success) {
+			return errorResult(new ToolError("validation", `Invalid database schema:\n${describeSchemaIssues(properties.error)}`), "Error creating database");
+		}
 
 		try {
+			await assertRelationAccess(properties.data);
 			const response = await notion.databases.create({
 				parent: {
 					type: "page_id",
@@ -1116,7 +782,7 @@ const toolHandlers = {
 						},
 					},
 				],
-				properties,
+				properties: properties.data,
 			});
 
 			return {
@@ -1128,52 +794,77 @@ const toolHandlers = {
 				],
 			};
 		} catch (error) {
-			console.error("Error creating database:", error);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text: `Error creating database: ${formatError(error)}`,
-					},
-				],
-			};
+			return errorResult(error, "Error creating database");
 		}
 	},
 
-	async query_database(args: unknown) {
-		const { databaseId, filter, sort } = args as any;
-
+	async query_database({ databaseId, filter, sort, where, orderBy, startCursor, pageSize, fetchAll, maxRows, format, columns }) {
 		try {
-			const response = await notion.databases.query({
-				database_id: databaseId,
-				filter,
-				sorts: sort ? [sort] : undefined,
-			});
+			let combinedFilter: any = filter;
+			let sorts: any[] | undefined = sort ? [sort] : undefined;
+
+			// Expressions and columns are checked against the schema, so mistakes are reported even when no rows match
+			if (where || orderBy || columns) {
+				const database = await notion.databases.retrieve({ database_id: databaseId });
+				const available = defaultColumns([database]);
+				const unknown = columns?.filter((column) => !available.includes(column)) ?? [];
+				if (unknown.length > 0) {
+					throw new ToolError("validation", `Unknown columns: ${unknown.join(", ")}`, `Available columns: ${available.join(", ")}`);
+				}
+				if (where) {
+					const coercer = new PropertyCoercer(notion, database.properties, checkRelatedDatabase);
+					const compiled = await compileFilter(where, database.properties, (property, value) => coercer.referenceId(property, value));
+					combinedFilter = filter ? { and: [filter, compiled] } : compiled;
+				}
+				if (orderBy) {
+					sorts = compileSorts(orderBy, database.properties);
+				}
+			}
+
+			const response = await paginate(
+				(start_cursor, page_size) => notion.databases.query({
+					database_id: databaseId,
+					filter: combinedFilter,
+					sorts,
+					start_cursor,
+					page_size,
+				}),
+				{ startCursor, pageSize, fetchAll, maxResults: maxRows },
+			);
+
+			if (response.results.length === 0) {
+				return {
+					content: [
+						{
+							type: "text" as const,
+							text: "No rows found",
+						},
+					],
+				};
+			}
+
+			let text = formatRows(response.results, format, columns);
+			if (response.nextCursor) {
+				text += `\n\nMore rows available. next_cursor: ${response.nextCursor}`;
+			}
 
 			return {
 				content: [
 					{
 						type: "text" as const,
-						text: JSON.stringify(response.results, null, 2),
+						text,
 					},
 				],
 			};
 		} catch (error) {
-			console.error("Error querying database:", error);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text: `Error querying database: ${formatError(error)}`,
-					},
-				],
-			};
+			return errorResult(error, "Error querying database");
 		}
 	},
-	async update_block(args: unknown) {
-		const { blockId, content, type = "paragraph" } = args as any;
-
+	async update_block({ blockId, content, type, dryRun }) {
 		try {
+			if (!dryRun) {
+				await snapshotPage(await pageOfBlock(blockId), "update_block");
+			}
 			const response = await notion.blocks.update({
 				block_id: blockId,
 				[type]: {
@@ -1197,22 +888,15 @@ const toolHandlers = {
 				],
 			};
 		} catch (error) {
-			console.error("Error updating block:", error);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text: formatError(error),
-					},
-				],
-			};
+			return errorResult(error, "Error updating block");
 		}
 	},
 
-	async delete_block(args: unknown) {
-		const { blockId } = args as any;
-
+	async delete_block({ blockId, dryRun }) {
 		try {
+			if (!dryRun) {
+				await snapshotPage(await pageOfBlock(blockId), "delete_block");
+			}
 			await notion.blocks.delete({
 				block_id: blockId,
 			});
@@ -1226,24 +910,24 @@ const toolHandlers = {
 				],
 			};
 		} catch (error) {
-			console.error("Error deleting block:", error);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text: formatError(error),
-					},
-				],
-			};
+			return errorResult(error, "Error deleting block");
 		}
 	},
-	async update_database_item(args: unknown) {
-		const { pageId, properties } = args as any;
-
+	async update_database_item({ pageId, properties, dryRun }) {
 		try {
-			const response = await notion.pages.update({
+			const page: any = await notion.pages.retrieve({ page_id: pageId });
+			if (page.parent?.type !== "database_id") {
+				throw new ToolError("validation", `Page ${pageId} is not a database item`);
+			}
+			const database = await notion.databases.retrieve({ database_id: page.parent.database_id });
+			const values = await new PropertyCoercer(notion, database.properties, checkRelatedDatabase).coerce(properties);
+
+			if (!dryRun) {
+				await snapshotPage(pageId, "update_database_item");
+			}
+			await notion.pages.update({
 				page_id: pageId,
-				properties,
+				properties: values,
 			});
 
 			return {
@@ -1255,20 +939,10 @@ const toolHandlers = {
 				],
 			};
 		} catch (error) {
-			console.error("Error updating database item:", error);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text: formatError(error),
-					},
-				],
-			};
+			return errorResult(error, "Error updating database item");
 		}
 	},
-	async retrieve_database(args: unknown) {
-		const { databaseId } = args as any;
-
+	async retrieve_database({ databaseId }) {
 		try {
 			const response = await notion.databases.retrieve({
 				database_id: databaseId,
@@ -1283,22 +957,18 @@ const toolHandlers = {
 				],
 			};
 		} catch (error) {
-			console.error("Error retrieving database:", error);
-			return {
-				content: [
-					{
-						type: "text" as const,
-						text: formatError(error),
-					},
-				],
-			};
+			return errorResult(error, "Error retrieving database");
 		}
 	},
 
-	async update_database(args: unknown) {
-		const { databaseId, title, description, properties } = args as any;
+	async update_database({ databaseId, title, description, properties: rawProperties }) {
+		const properties = rawProperties && databasePropertyUpdates.safeParse(rawProperties);
+		if (properties && !properties.success) {
+			return errorResult(new ToolError("validation", `Invalid database schema:\n${describeSchemaIssues(properties.error)}`), "Error updating database");
+		}
 
 		try {
+			await assertRelationAccess(properties?.data ?? {});
 			const response = await notion.databases.update({
 				database_id: databaseId,
 				title: title
@@ -1317,7 +987,7 @@ const toolHandlers = {
 						},
 					]
 					: undefined,
-				properties,
+				properties: properties?.data,
 			});
 
 			return {
@@ -1329,63 +999,503 @@ const toolHandlers = {
 				],
 			};
 		} catch (error) {
-			console.error("Error updating database:", error);
+			return errorResult(error, "Error updating database");
+		}
+	},
+
+	async migrate_database({ databaseId, properties, renames, dryRun, allowRemovals }) {
+		const desired = databaseProperties.safeParse(properties);
+		if (!desired.success) {
+			return errorResult(new ToolError("validation", `Invalid database schema:\n${describeSchemaIssues(desired.error)}`), "Error migrating database");
+		}
+
+		try {
+			const database = await notion.databases.retrieve({ database_id: databaseId });
+			const plan = planMigration(database.properties, desired.data, renames);
+			// Only relations the plan adds or changes; existing ones are left as they are
+			await assertRelationAccess(plan.updates);
+			const summary = describePlan(plan);
+
+			let text: string;
+			if (Object.keys(plan.updates).length === 0) {
+				text = summary;
+			} else if (removesData(plan) && !allowRemovals && !dryRun) {
+				const refusal = new ToolError("conflict", "Not applied: the plan removes properties or select options, or retypes properties in a way that loses values.", "Call again with allowRemovals: true to apply it.");
+				return errorResult(refusal, "Error migrating database", summary);
+			} else {
+				// In a dry run the update is only recorded, so destructive plans can be reviewed too
+				await notion.databases.update({ database_id: databaseId, properties: plan.updates });
+				text = `Migrated database ${databaseId}:\n${summary}`;
+				if (dryRun && removesData(plan) && !allowRemovals) {
+					text += "\n(Applying this plan needs allowRemovals: true, since it deletes values.)";
+				}
+			}
+
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text,
+					},
+				],
+			};
+		} catch (error) {
+			return errorResult(error, "Error migrating database");
+		}
+	},
+
+	async list_page_history({ pageId }) {
+		try {
+			const history = await snapshots.list(pageId);
+			const text = history.length === 0
+				? `No snapshots of page ${pageId}. Snapshots are saved when this server changes a page.`
+				: history.map((snapshot) => `- ${snapshot.id} (${snapshot.takenAt}): before ${snapshot.reason}, ${snapshot.blockCount} blocks`).join("\n");
+
 			return {
 				content: [
 					{
 						type: "text" as const,
-						text: formatError(error),
+						text,
 					},
 				],
 			};
+		} catch (error) {
+			return errorResult(error, "Error listing page history");
+		}
+	},
+
+	async diff_page_versions({ pageId, from, to }) {
+		try {
+			const before = from ? await snapshots.load(pageId, from) : await snapshots.latest(pageId);
+			if (!before) {
+				throw new ToolError("not_found", `No snapshots of page ${pageId}`, "Snapshots are saved when this server changes a page.");
+			}
+
+			let after: { properties: Record<string, any>; blocks: NotionBlock[] };
+			if (to === "current") {
+				const [page, blocks]: [any, NotionBlock[]] = await Promise.all([notion.pages.retrieve({ page_id: pageId }), fetchBlockTree(pageId, Infinity)]);
+				after = { properties: page.properties, blocks };
+			} else {
+				after = await snapshots.load(pageId, to);
+			}
+
+			const diff = diffLines(versionText(before.properties, before.blocks), versionText(after.properties, after.blocks));
+			const label = to === "current" ? "the current page" : `snapshot ${to}`;
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: diff
+							? `Changes from snapshot ${before.id} (${before.takenAt}) to ${label}:\n\n${diff}`
+							: `No differences between snapshot ${before.id} and ${label}`,
+					},
+				],
+			};
+		} catch (error) {
+			return errorResult(error, "Error comparing page versions");
+		}
+	},
+
+	async revert_page({ pageId, snapshotId, dryRun }) {
+		let snapshot: PageSnapshot;
+		let current: NotionBlock[];
+		let page: any;
+		try {
+			snapshot = await snapshots.load(pageId, snapshotId);
+			[page, current] = await Promise.all([notion.pages.retrieve({ page_id: pageId }), fetchBlockTree(pageId, Infinity)]);
+			if (!dryRun) {
+				await snapshotPage(pageId, `revert_page (to ${snapshotId})`, current);
+			}
+		} catch (error) {
+			return errorResult(error, "Error reverting page");
+		}
+
+		const log = new BlockChangeLog(notion);
+		try {
+			const desired = snapshot.blocks.map(toBlockRequest).filter((request) => request !== null);
+			const stats = await mergeBlocks(log, pageId, current, desired);
+			const properties = propertyChanges(page.properties, snapshot.properties);
+			if (Object.keys(properties).length > 0) {
+				await notion.pages.update({ page_id: pageId, properties });
+			}
+
+			let summary = `kept ${stats.kept}, updated ${stats.updated}, inserted ${stats.inserted}, deleted ${stats.deleted} blocks; restored ${Object.keys(properties).length} properties`;
+			const skipped = snapshot.blocks.length - desired.length;
+			if (skipped > 0) {
+				summary += `. ${skipped} blocks in the snapshot can't be recreated (child pages, databases or uploaded files)`;
+			}
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `Reverted page ${pageId} to snapshot ${snapshotId} (${snapshot.takenAt}): ${summary}`,
+					},
+				],
+			};
+		} catch (error) {
+			return rollbackResult(error, log, "Failed to revert page");
+		}
+	},
+
+	async list_changes({ since, cursor, rootId, limit }) {
+		try {
+			const position = cursor ?? since ?? new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+			const { changes: found, cursor: next, skippedUntil } = await changeFeed.listChanges({ since: position, rootId, limit });
+			const changes = await accessPolicy.visible(found);
+
+			let text = changes.length === 0
+				? "No changes found"
+				: `${changes.length} changes:\n${changes.map(describeChange).join("\n")}`;
+			if (skippedUntil) {
+				text += `\n\nIncomplete: too many items changed to scan them all, so changes before ${skippedUntil} are missing. Pass a database as rootId, or list changes more often.`;
+			}
+
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text: `${text}\n\ncursor: ${next}`,
+					},
+				],
+			};
+		} catch (error) {
+			return errorResult(error, "Error listing changes");
+		}
+	},
+
+	async get_audit_log({ limit, tool, outcome, since, targetId }) {
+		try {
+			const entries = await auditLog.recent({ limit, tool, outcome, targetId, since: since ? new Date(since) : undefined });
+			const text = entries.length === 0
+				? "No matching audit log entries"
+				: `${entries.length} entries, newest first:\n${entries.map((entry) => JSON.stringify(entry)).join("\n")}`;
+
+			return {
+				content: [
+					{
+						type: "text" as const,
+						text,
+					},
+				],
+			};
+		} catch (error) {
+			return errorResult(error, "Error reading audit log");
 		}
 	},
 };
 
-// Initialize MCP server
-const server = new Server(
+// Run a write tool without writing anything, and describe the requests it would have sent
+async function dryRunResult(name: string, call: () => Promise<CallToolResult>): Promise<CallToolResult> {
+	const { result, requests } = await dryRun(call);
+	if (result.isError) {
+		return result;
+	}
+
+	const report = result.content.map((item) => (item.type === "text" ? item.text : "")).join("\n");
+	const steps = requests.map((request, index) => `${index + 1}. ${describeRequest(request)}`).join("\n\n");
+	const text = requests.length === 0
+		? `Dry run of ${name}: it would make no changes.`
+		: `Dry run of ${name}, nothing was changed. It would send ${requests.length === 1 ? "this request" : `these ${requests.length} requests`}:\n\n${steps}`;
+	return {
+		content: [
+			{
+				type: "text" as const,
+				text: `${text}\n\nIt would then report: ${report}`,
+			},
+		],
+	};
+}
+
+// Pages and databases as resources, so clients can attach them as context directly
+const RESOURCE_TEMPLATES = [
 	{
-		name: "notion-server",
-		version: "1.0.0",
+		uriTemplate: "notion://page/{id}",
+		name: "Notion page",
+		description: "A page's content as Markdown",
+		mimeType: "text/markdown",
 	},
 	{
-		capabilities: {
-			tools: {},
-		},
+		uriTemplate: "notion://database/{id}{?format}",
+		name: "Notion database",
+		description: "A database's rows (up to 1000) as JSON, or as a Markdown table or CSV with format=markdown or format=csv",
+		mimeType: "application/json",
 	},
-);
+	{
+		uriTemplate: "notion://changes/{rootId}{?days}",
+		name: "Recent Notion changes",
+		description: "Pages and rows edited in the last days (default 7), under a page or database or, with an empty rootId, across the workspace",
+		mimeType: "text/markdown",
+	},
+];
 
-// Register tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-	console.error("Tools requested by client");
-	return { tools: TOOL_DEFINITIONS };
-});
+const ROW_MIME_TYPES: Record<RowFormat, string> = {
+	json: "application/json",
+	markdown: "text/markdown",
+	csv: "text/csv",
+};
 
-server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
-	const { name, arguments: args } = request.params;
+function resourceFor(result: any) {
+	if (result.object === "database") {
+		return {
+			uri: `notion://database/${result.id}`,
+			name: titleOf(result),
+			mimeType: ROW_MIME_TYPES.json,
+		};
+	}
+	return {
+		uri: `notion://page/${result.id}`,
+		name: titleOf(result),
+		mimeType: "text/markdown",
+	};
+}
+
+const RESOURCE_URIS = {
+	page: /^notion:\/\/page\/([0-9a-f-]+)$/i,
+	database: /^notion:\/\/database\/([0-9a-f-]+)(?:\?format=(json|markdown|csv))?$/i,
+	changes: /^notion:\/\/changes\/([0-9a-f-]*)(?:\?days=(\d+))?$/i,
+};
+
+// Read a notion:// resource, as described by RESOURCE_TEMPLATES
+async function readResource(uri: string): Promise<EmbeddedResource> {
+	const page = RESOURCE_URIS.page.exec(uri);
+	const database = RESOURCE_URIS.database.exec(uri);
+	const changes = RESOURCE_URIS.changes.exec(uri);
+	if (!page && !database && !changes) {
+		throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}. Expected notion://page/{id}, notion://database/{id} or notion://changes/{rootId}`);
+	}
 
 	try {
-		const handler = toolHandlers[name as keyof typeof toolHandlers];
-		if (!handler) {
-			throw new Error(`Unknown tool: ${name}`);
+		const rootId = page?.[1] ?? database?.[1] ?? changes?.[1];
+		await accessPolicy.assertAccess("read", rootId ? [rootId] : []);
+
+		if (page) {
+			return { uri, mimeType: "text/markdown", text: await renderPage(page[1], 5) };
+		}
+
+		if (changes) {
+			const days = Number(changes[2] || 7);
+			const list = await changeFeed.listChanges({
+				since: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+				rootId: changes[1] || undefined,
+				limit: 500,
+			});
+			const visible = await accessPolicy.visible(list.changes);
+			let text = visible.length === 0 ? `No changes in the last ${days} days` : visible.map(describeChange).join("\n");
+			if (list.skippedUntil) {
+				text += `\n\n(Incomplete: changes before ${list.skippedUntil} are missing, since too many items changed to scan them all)`;
+			}
+			return { uri, mimeType: "text/markdown", text };
 		}
 
-		return await handler(args);
+		const { results } = await paginate(
+			(start_cursor, page_size) => notion.databases.query({ database_id: database![1], start_cursor, page_size }),
+			{ fetchAll: true, maxResults: 1000 },
+		);
+		const rowFormat = (database![2] || "json").toLowerCase() as RowFormat;
+		return { uri, mimeType: ROW_MIME_TYPES[rowFormat], text: formatRows(results, rowFormat) };
 	} catch (error) {
-		console.error(`Error executing tool ${name}:`, error);
-		throw error;
+		const { code, message, hint } = describeError(error);
+		console.error(`Error reading resource ${uri} (${code}): ${message}`);
+		throw new McpError(ErrorCode.InternalError, hint ? `${message}\nHint: ${hint}` : message, { code, hint });
 	}
-});
+}
+
+// Prompt templates; custom ones from NOTION_PROMPTS_DIR are added when the server starts
+let promptTemplates = BUILT_IN_PROMPTS;
 
-// Start the server
+// Each connection (the stdio client, or an HTTP session) gets its own server instance
+const activeServers = new Set<Server>();
+
+function createServer(): Server {
+	const server = new Server(
+		{
+			name: "notion-server",
+			version: "1.0.0",
+		},
+		{
+			capabilities: {
+				tools: {},
+				resources: {},
+				prompts: {},
+				logging: {},
+			},
+		},
+	);
+
+	// Register tool handlers
+	server.setRequestHandler(ListToolsRequestSchema, async () => {
+		console.error("Tools requested by client");
+		return { tools: TOOL_DEFINITIONS.filter((tool) => accessPolicy.toolEnabled(tool.name, TOOLS[tool.name as ToolName].access)) };
+	});
+
+	server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+		const { name, arguments: args } = request.params;
+
+		if (!Object.hasOwn(TOOLS, name)) {
+			throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+		}
+		const tool: ToolSpec = TOOLS[name as ToolName];
+		const handler = toolHandlers[name as ToolName] as (args: unknown) => Promise<CallToolResult>;
+
+		const started = Date.now();
+		let targets: string[] = [];
+		let dryRunning = false;
+		const { result, requestIds } = await trackRequests(async (): Promise<CallToolResult> => {
+			// Invalid arguments, policy refusals and anything a handler doesn't catch itself become error results too
+			try {
+				accessPolicy.assertToolEnabled(name, tool.access);
+				const input = tool.input.parse(args ?? {});
+				targets = tool.targets?.(input) ?? [];
+				await accessPolicy.assertAccess(tool.access, targets);
+				if (tool.access === "write" && (input.dryRun ?? dryRunByDefault)) {
+					dryRunning = true;
+					return await dryRunResult(name, () => handler({ ...input, dryRun: true }));
+				}
+				return await handler(input);
+			} catch (error) {
+				return errorResult(error, `Error running ${name}`);
+			}
+		});
+
+		const outcome: AuditOutcome = result.isError ? "error" : dryRunning ? "dry_run" : "success";
+		await auditLog.append({
+			time: new Date(started).toISOString(),
+			tool: name,
+			session: extra.sessionId,
+			arguments: sanitizeArguments(args ?? {}),
+			targets,
+			requestIds,
+			outcome,
+			error: (result.structuredContent?.error as { code?: string } | undefined)?.code,
+			durationMs: Date.now() - started,
+		}).catch((error) => console.error(`Error writing audit log entry for ${name}:`, error));
+		return result;
+	});
+
+	server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+		const response = await notion.search({ start_cursor: request.params?.cursor, page_size: 100 });
+		return {
+			resources: (await accessPolicy.visible(response.results)).map(resourceFor),
+			nextCursor: response.next_cursor ?? undefined,
+		};
+	});
+
+	server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+		return { resourceTemplates: RESOURCE_TEMPLATES };
+	});
+
+	server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+		return { contents: [await readResource(request.params.uri)] };
+	});
+
+	server.setRequestHandler(ListPromptsRequestSchema, async () => {
+		return {
+			prompts: promptTemplates.map((template) => ({
+				name: template.name,
+				description: template.description,
+				arguments: template.arguments.map(({ name, description, required }) => ({ name, description, required })),
+			})),
+		};
+	});
+
+	server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+		const { name, arguments: args = {} } = request.params;
+		const template = promptTemplates.find((candidate) => candidate.name === name);
+		if (!template) {
+			throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+		}
+
+		try {
+			return await renderPrompt(template, args, readResource);
+		} catch (error) {
+			if (error instanceof PromptArgumentError) {
+				throw new McpError(ErrorCode.InvalidParams, error.message);
+			}
+			throw error;
+		}
+	});
+
+	activeServers.add(server);
+	server.onclose = () => {
+		activeServers.delete(server);
+	};
+	return server;
+}
+
+// Start the server: on stdio by default, or over HTTP with --http [--port 8080] [--host 0.0.0.0].
+// `notion export <pageId> <directory>` exports pages instead (see pageExport.ts)
 async function main() {
 	if (!process.env.NOTION_API_KEY) {
 		throw new Error("NOTION_API_KEY environment variable is required");
 	}
 
-	const transport = new StdioServerTransport();
-	await server.connect(transport);
-	console.error("Notion MCP Server running on stdio");
+	const { values: options, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			http: { type: "boolean", default: false },
+			port: { type: "string", default: process.env.PORT || "8080" },
+			host: { type: "string", default: "0.0.0.0" },
+		},
+	});
+
+	if (process.env.NOTION_ACCESS_POLICY) {
+		accessPolicy = new AccessPolicy(ancestry, await loadAccessPolicy(process.env.NOTION_ACCESS_POLICY));
+		console.error(`Loaded access policy from ${process.env.NOTION_ACCESS_POLICY}`);
+	}
+
+	// notion export <pageId> <directory>: write the page and everything under it as Markdown, then exit
+	if (positionals[0] === "export") {
+		const [, rootId, directory] = positionals;
+		if (!rootId || !directory) {
+			throw new Error("Usage: notion export <pageId> <directory>");
+		}
+		await accessPolicy.assertAccess("read", [rootId]);
+		const summary = await new PageExporter(notion, (pageId) => fetchBlockTree(pageId, Infinity), directory).export(rootId);
+		console.error(`Exported "${summary.title}" to ${directory}: ${summary.written} files written, ${summary.unchanged} unchanged, ${summary.removed} removed`);
+		if (summary.failures.length > 0) {
+			console.error(`Could not export (their earlier files were kept):\n${summary.failures.map((failure) => `- ${failure}`).join("\n")}`);
+			process.exitCode = 1;
+		}
+		return;
+	}
+
+	if (process.env.NOTION_PROMPTS_DIR) {
+		const custom = await loadPromptTemplates(process.env.NOTION_PROMPTS_DIR);
+		promptTemplates = mergePromptTemplates(BUILT_IN_PROMPTS, custom);
+		console.error(`Loaded ${custom.length} prompt templates from ${process.env.NOTION_PROMPTS_DIR}`);
+	}
+
+	if (options.http) {
+		await startHttpServer(createServer, {
+			port: Number(options.port),
+			host: options.host!,
+			tokens: (process.env.NOTION_MCP_AUTH_TOKENS || "").split(",").map((token) => token.trim()).filter(Boolean),
+			idleTimeout: Number(process.env.NOTION_MCP_SESSION_IDLE_MINUTES || 30) * 60 * 1000,
+		});
+		console.error(`Notion MCP Server listening on http://${options.host}:${options.port} (/mcp, /sse, /healthz)`);
+	} else {
+		const transport = new StdioServerTransport();
+		await createServer().connect(transport);
+		console.error("Notion MCP Server running on stdio");
+	}
+
+	// Watched pages/databases are polled for changes, which are sent as logging notifications
+	const watchedRoots = (process.env.NOTION_WATCH_ROOTS || "").split(",").map((id) => id.trim()).filter(Boolean);
+	if (watchedRoots.length > 0) {
+		const poller = new ChangePoller(changeFeed, watchedRoots, async (rootId, found) => {
+			const changes = await accessPolicy.visible(found);
+			if (changes.length === 0) return;
+			await Promise.all([...activeServers].map((server) => server.sendLoggingMessage({
+				level: "info",
+				logger: "notion-changes",
+				data: { rootId, changes },
+			}).catch((error) => console.error("Error sending change notification:", error))));
+		}, {
+			minInterval: Number(process.env.NOTION_WATCH_INTERVAL || 30) * 1000,
+		});
+		poller.start();
+		console.error(`Watching ${watchedRoots.length} roots for changes`);
+	}
 }
 
 main().catch((error) => {
@@ -0,0 +1,270 @@
+// Convert Markdown into Notion block objects for pages.create / blocks.children.append.
+// Indented lines nest under the list item, to-do, quote or paragraph above them, and the
+// <details>/<aside> blocks (including toggleable headings) and pipe tables emitted by
+// blocksToMarkdown are read back.
+
+import { markdownToRichText, plainRichText, RichTextItem } from "./markdownToRichText.js";
+
+export type BlockRequest = { object: "block"; type: string;[key: string]: any };
+
+// Block types that can't hold nested blocks
+const LEAF_TYPES = new Set(["heading_1", "heading_2", "heading_3", "code", "equation", "divider", "image", "table"]);
+
+const TAB_WIDTH = 4;
+
+function block(type: string, data: Record<string, any>): BlockRequest {
+	return { object: "block", type, [type]: data };
+}
+
+function indentOf(line: string): number {
+	let width = 0;
+	for (const char of line) {
+		if (char === " ") width++;
+		else if (char === "\t") width += TAB_WIDTH;
+		else break;
+	}
+	return width;
+}
+
+// Remove up to `width` columns of leading whitespace
+function dedent(line: string, width: number): string {
+	let i = 0;
+	let removed = 0;
+	while (i < line.length && removed < width && (line[i] === " " || line[i] === "\t")) {
+		removed += line[i] === "\t" ? TAB_WIDTH : 1;
+		i++;
+	}
+	return line.slice(i);
+}
+
+// Split a pipe table row into cells, honouring escaped pipes
+function splitTableRow(line: string): string[] {
+	const cells: string[] = [];
+	let current = "";
+	const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+
+	for (let i = 0; i < trimmed.length; i++) {
+		if (trimmed[i] === "\\" && trimmed[i + 1] === "|") {
+			current += "|";
+			i++;
+		} else if (trimmed[i] === "|") {
+			cells.push(current.trim());
+			current = "";
+		} else {
+			current += trimmed[i];
+		}
+	}
+	cells.push(current.trim());
+	return cells;
+}
+
+const isTableSeparator = (line: string | undefined) => !!line && /^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*\|?\s*$/.test(line);
+
+function cellRichText(cell: string): RichTextItem[] {
+	return cell
+		.split(/(?<!\\)<br\s*\/?>/i)
+		.flatMap((part, i): RichTextItem[] => (i > 0 ? [{ type: "text", text: { content: "\n" } }, ...markdownToRichText(part)] : markdownToRichText(part)));
+}
+
+// Collect lines from the opening tag at `start` to its matching close tag, stripping both tags
+function collectTagBlock(lines: string[], start: number, tag: string): { inner: string[]; end: number } | null {
+	let depth = 0;
+	for (let i = start; i < lines.length; i++) {
+		const trimmed = lines[i].trim();
+		if (trimmed.startsWith(`<${tag}`)) depth++;
+		if (trimmed.endsWith(`</${tag}>`) && --depth === 0) {
+			const inner = lines.slice(start, i + 1);
+			inner[0] = inner[0].trim().replace(new RegExp(`^<${tag}[^>]*>`), "");
+			inner[inner.length - 1] = inner[inner.length - 1].replace(new RegExp(`</${tag}>\\s*$`), "");
+			return { inner, end: i };
+		}
+	}
+	return null;
+}
+
+// Drop leading and trailing blank lines
+function trimBlankLines(lines: string[]): string[] {
+	let start = 0;
+	let end = lines.length;
+	while (start < end && !lines[start].trim()) start++;
+	while (end > start && !lines[end - 1].trim()) end--;
+	return lines.slice(start, end);
+}
+
+// Parse a single-line block (heading, list item, to-do, quote, divider, image or paragraph)
+function parseLine(trimmedLine: string, line: string): BlockRequest {
+	let match: RegExpMatchArray | null;
+
+	if ((match = trimmedLine.match(/^(#{1,3}) (.*)$/))) {
+		const type = `heading_${match[1].length}`;
+		return block(type, { rich_text: markdownToRichText(match[2]) });
+	}
+	if ((match = trimmedLine.match(/^[-*+] \[([ xX])\] ?(.*)$/))) {
+		return block("to_do", { rich_text: markdownToRichText(match[2]), checked: match[1] !== " " });
+	}
+	if ((match = trimmedLine.match(/^[-*+] (.*)$/))) {
+		return block("bulleted_list_item", { rich_text: markdownToRichText(match[1]) });
+	}
+	if ((match = trimmedLine.match(/^\d+[.)] (.*)$/))) {
+		return block("numbered_list_item", { rich_text: markdownToRichText(match[1]) });
+	}
+	if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmedLine)) {
+		return block("divider", {});
+	}
+	if ((match = trimmedLine.match(/^!\[(.*)\]\((.*)\)$/))) {
+		// Image in markdown format: ![alt](url)
+		return block("image", {
+			type: "external",
+			external: { url: match[2] },
+			caption: match[1] ? markdownToRichText(match[1]) : [],
+		});
+	}
+	return block("paragraph", { rich_text: markdownToRichText(line.trim()) });
+}
+
+// Parse Markdown into a list of top-level blocks with nested `children`. The result is
+// untyped because the client's block request union can't be built from a dynamic `type`.
+export function markdownToBlocks(markdown: string): any[] {
+	const lines = markdown.split(/\r?\n/);
+	const root: BlockRequest[] = [];
+	// Blocks that may receive indented children, innermost last
+	const stack: Array<{ indent: number; block: BlockRequest }> = [];
+	let pendingBlankLines = 0;
+
+	const place = (newBlock: BlockRequest, indent: number) => {
+		while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+			stack.pop();
+		}
+
+		// Blank lines only become empty paragraphs at the top level, not inside nested lists
+		const parent = stack[stack.length - 1]?.block;
+		if (parent) {
+			const data = parent[parent.type];
+			(data.children ??= []).push(newBlock);
+		} else {
+			for (; pendingBlankLines > 0; pendingBlankLines--) {
+				root.push(block("paragraph", { rich_text: [] }));
+			}
+			root.push(newBlock);
+		}
+		pendingBlankLines = 0;
+
+		if (!LEAF_TYPES.has(newBlock.type)) {
+			stack.push({ indent, block: newBlock });
+		}
+	};
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const trimmedLine = line.trim();
+		const indent = indentOf(line);
+
+		if (trimmedLine === "") {
+			pendingBlankLines++;
+			continue;
+		}
+
+		// Fenced code blocks
+		if (trimmedLine.startsWith("```")) {
+			const language = trimmedLine.slice(3).trim();
+			const codeLines: string[] = [];
+			for (i++; i < lines.length && !lines[i].trim().startsWith("```"); i++) {
+				codeLines.push(dedent(lines[i], indent));
+			}
+			place(block("code", {
+				rich_text: plainRichText(codeLines.join("\n")),
+				language: language || "plain text",
+			}), indent);
+			continue;
+		}
+
+		// Block equations: $$ ... $$
+		if (trimmedLine === "$$") {
+			const expression: string[] = [];
+			for (i++; i < lines.length && lines[i].trim() !== "$$"; i++) {
+				expression.push(lines[i].trim());
+			}
+			place(block("equation", { expression: expression.join("\n") }), indent);
+			continue;
+		}
+
+		// Toggles: <details><summary>Title</summary> ... </details>
+		if (trimmedLine.startsWith("<details")) {
+			const collected = collectTagBlock(lines, i, "details");
+			if (collected) {
+				const inner = collected.inner.map((innerLine) => dedent(innerLine, indent));
+				const body = inner.join("\n");
+				const summary = body.match(/<summary>([\s\S]*?)<\/summary>/);
+				const rest = summary ? body.replace(summary[0], "") : body;
+				const children = markdownToBlocks(trimBlankLines(rest.split("\n")).join("\n"));
+				// A heading as the summary makes a toggleable heading
+				const title = summary ? summary[1].trim() : "";
+				const heading = title.match(/^(#{1,3}) (.*)$/);
+				place(block(heading ? `heading_${heading[1].length}` : "toggle", {
+					rich_text: markdownToRichText(heading ? heading[2] : title),
+					...(heading ? { is_toggleable: true } : {}),
+					...(children.length > 0 ? { children } : {}),
+				}), indent);
+				i = collected.end;
+				continue;
+			}
+		}
+
+		// Callouts: <aside>💡 Text ... </aside>
+		if (trimmedLine.startsWith("<aside")) {
+			const collected = collectTagBlock(lines, i, "aside");
+			if (collected) {
+				const inner = trimBlankLines(collected.inner.map((innerLine) => dedent(innerLine, indent)));
+				const [first = "", ...rest] = inner;
+				const icon = first.match(/^(\p{Extended_Pictographic}️?)\s*/u);
+				const children = markdownToBlocks(trimBlankLines(rest).join("\n"));
+				place(block("callout", {
+					rich_text: markdownToRichText(icon ? first.slice(icon[0].length) : first),
+					...(icon ? { icon: { type: "emoji", emoji: icon[1] } } : {}),
+					...(children.length > 0 ? { children } : {}),
+				}), indent);
+				i = collected.end;
+				continue;
+			}
+		}
+
+		// Pipe tables: a header row followed by a |---| separator
+		if (trimmedLine.startsWith("|") && isTableSeparator(lines[i + 1])) {
+			const rows = [splitTableRow(trimmedLine)];
+			for (i += 2; i < lines.length && lines[i].trim().startsWith("|"); i++) {
+				rows.push(splitTableRow(lines[i]));
+			}
+			i--;
+
+			const width = Math.max(...rows.map((row) => row.length));
+			place(block("table", {
+				table_width: width,
+				has_column_header: true,
+				has_row_header: false,
+				children: rows.map((row) =>
+					block("table_row", {
+						cells: Array.from({ length: width }, (_, col) => cellRichText(row[col] ?? "")),
+					}),
+				),
+			}), indent);
+			continue;
+		}
+
+		// Quotes: consecutive "> " lines form one block
+		if (trimmedLine === ">" || trimmedLine.startsWith("> ")) {
+			const quoteLines = [trimmedLine.replace(/^> ?/, "")];
+			while (i + 1 < lines.length && /^>( |$)/.test(lines[i + 1].trim()) && indentOf(lines[i + 1]) === indent) {
+				quoteLines.push(lines[++i].trim().replace(/^> ?/, ""));
+			}
+			const richText = quoteLines.flatMap((quoteLine, n): RichTextItem[] =>
+				n > 0 ? [{ type: "text", text: { content: "\n" } }, ...markdownToRichText(quoteLine)] : markdownToRichText(quoteLine),
+			);
+			place(block("quote", { rich_text: richText }), indent);
+			continue;
+		}
+
+		place(parseLine(trimmedLine, line), indent);
+	}
+
+	return root;
+}
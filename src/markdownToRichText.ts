@@ -0,0 +1,238 @@
+// Tokenize inline Markdown (**bold**, _italic_, `code`, ~~strike~~, [links](url), $equations$
+// and the <u>/<span color> tags emitted by blocksToMarkdown) into Notion rich_text segments.
+
+export interface Annotations {
+	bold?: boolean;
+	italic?: boolean;
+	strikethrough?: boolean;
+	underline?: boolean;
+	code?: boolean;
+	color?: string;
+}
+
+export type RichTextItem =
+	| { type: "text"; text: { content: string; link?: { url: string } }; annotations?: Annotations }
+	| { type: "equation"; equation: { expression: string }; annotations?: Annotations };
+
+// Notion rejects text runs longer than this, so longer content is split across several runs
+export const MAX_TEXT_LENGTH = 2000;
+
+const COLORS = ["gray", "brown", "orange", "yellow", "green", "blue", "purple", "pink", "red"];
+const VALID_COLORS = new Set(["default", ...COLORS, ...COLORS.map((color) => `${color}_background`)]);
+
+// Notion rejects relative or malformed link URLs, so only absolute ones become links
+const LINK_URL = /^(https?:\/\/|mailto:)\S+$/;
+
+const isSpace = (char: string | undefined) => char === undefined || /\s/.test(char);
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+// Find the closing delimiter for an emphasis run opened just before `from`
+function findClosing(text: string, from: number, delim: string): number {
+	for (let i = from; i <= text.length - delim.length; i++) {
+		if (text[i] === "\\") {
+			i++;
+			continue;
+		}
+		if (text[i] === "`") {
+			// Delimiters inside code spans don't count
+			const end = text.indexOf("`", i + 1);
+			if (end !== -1) {
+				i = end;
+				continue;
+			}
+		}
+		if (!text.startsWith(delim, i) || isSpace(text[i - 1]) || i === from) {
+			continue;
+		}
+		if (delim.length === 2) {
+			// In a run like "***", the closer is the last pair so "***x***" nests italic inside bold
+			while (text.startsWith(delim, i + 1)) {
+				i++;
+			}
+		} else {
+			// A single * or _ must not be half of a ** or __ pair
+			if (text[i + 1] === delim || text[i - 1] === delim) {
+				i++;
+				continue;
+			}
+			// Intraword underscores (snake_case) never close emphasis
+			if (delim === "_" && isWordChar(text[i + 1])) {
+				continue;
+			}
+		}
+		return i;
+	}
+	return -1;
+}
+
+// Find the end of an HTML-style tag pair, allowing the same tag to be nested inside
+function findClosingTag(text: string, from: number, tag: string): number {
+	let depth = 1;
+	const open = new RegExp(`<${tag}[\\s>]`, "y");
+	const close = `</${tag}>`;
+
+	for (let i = from; i < text.length; i++) {
+		open.lastIndex = i;
+		if (open.test(text)) {
+			depth++;
+		} else if (text.startsWith(close, i) && --depth === 0) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+// Find the `]` matching the `[` just before `from`, skipping nested brackets and escapes
+function findClosingBracket(text: string, from: number): number {
+	let depth = 1;
+	for (let i = from; i < text.length; i++) {
+		if (text[i] === "\\") {
+			i++;
+		} else if (text[i] === "[") {
+			depth++;
+		} else if (text[i] === "]" && --depth === 0) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+function tokenize(text: string, annotations: Annotations, link: string | undefined, out: RichTextItem[]): void {
+	let buffer = "";
+
+	const flush = () => {
+		if (buffer) {
+			out.push(...textItems(buffer, annotations, link));
+			buffer = "";
+		}
+	};
+
+	const recurse = (inner: string, extra: Annotations, innerLink = link) => {
+		flush();
+		tokenize(inner, { ...annotations, ...extra }, innerLink, out);
+	};
+
+	let i = 0;
+	while (i < text.length) {
+		const char = text[i];
+		const rest = text.slice(i);
+
+		// Backslash escapes
+		if (char === "\\" && i + 1 < text.length && /[\\`*_~\[\]()$<>|#!.+-]/.test(text[i + 1])) {
+			buffer += text[i + 1];
+			i += 2;
+			continue;
+		}
+
+		// Code spans: content is literal
+		if (char === "`") {
+			const end = text.indexOf("`", i + 1);
+			if (end > i + 1) {
+				flush();
+				out.push(...textItems(text.slice(i + 1, end), { ...annotations, code: true }, link));
+				i = end + 1;
+				continue;
+			}
+		}
+
+		// Inline equations: $x$, but not prices like "$5 and $10"
+		if (char === "$" && !isSpace(text[i + 1]) && text[i + 1] !== "$") {
+			const end = text.indexOf("$", i + 1);
+			if (end !== -1 && !isSpace(text[end - 1]) && !/\d/.test(text[end + 1] ?? "")) {
+				flush();
+				out.push({ type: "equation", equation: { expression: text.slice(i + 1, end) }, ...withAnnotations(annotations) });
+				i = end + 1;
+				continue;
+			}
+		}
+
+		// Links: [text](url)
+		if (char === "[") {
+			const close = findClosingBracket(text, i + 1);
+			const target = close !== -1 ? text.slice(close + 1).match(/^\(([^()\s]*)\)/) : null;
+			if (target) {
+				const url = target[1];
+				recurse(text.slice(i + 1, close), {}, LINK_URL.test(url) ? url : link);
+				i = close + 1 + target[0].length;
+				continue;
+			}
+		}
+
+		// Underline and color tags
+		if (rest.startsWith("<u>")) {
+			const end = findClosingTag(text, i + 3, "u");
+			if (end !== -1) {
+				recurse(text.slice(i + 3, end), { underline: true });
+				i = end + "</u>".length;
+				continue;
+			}
+		}
+		const span = rest.match(/^<span color="([a-z_]+)">/);
+		if (span && VALID_COLORS.has(span[1])) {
+			const end = findClosingTag(text, i + span[0].length, "span");
+			if (end !== -1) {
+				recurse(text.slice(i + span[0].length, end), { color: span[1] });
+				i = end + "</span>".length;
+				continue;
+			}
+		}
+
+		// Emphasis: **bold**, __bold__, ~~strike~~, *italic*, _italic_
+		const delim = ["**", "__", "~~", "*", "_"].find((d) => rest.startsWith(d));
+		if (delim && !isSpace(text[i + delim.length]) && !(delim[0] === "_" && isWordChar(text[i - 1]))) {
+			const end = findClosing(text, i + delim.length, delim);
+			if (end !== -1) {
+				const extra: Annotations =
+					delim === "~~" ? { strikethrough: true } : delim.length === 2 ? { bold: true } : { italic: true };
+				recurse(text.slice(i + delim.length, end), extra);
+				i = end + delim.length;
+				continue;
+			}
+		}
+
+		buffer += char;
+		i++;
+	}
+
+	flush();
+}
+
+function withAnnotations(annotations: Annotations): { annotations?: Annotations } {
+	return Object.keys(annotations).length > 0 ? { annotations: { ...annotations } } : {};
+}
+
+// Split text into chunks of at most MAX_TEXT_LENGTH, never between the halves of a surrogate pair
+export function splitText(content: string): string[] {
+	const chunks: string[] = [];
+	let start = 0;
+	while (content.length - start > MAX_TEXT_LENGTH) {
+		let end = start + MAX_TEXT_LENGTH;
+		if (/[\uD800-\uDBFF]/.test(content[end - 1])) {
+			end--;
+		}
+		chunks.push(content.slice(start, end));
+		start = end;
+	}
+	chunks.push(content.slice(start));
+	return chunks;
+}
+
+function textItems(content: string, annotations: Annotations, link: string | undefined): RichTextItem[] {
+	return splitText(content).map((chunk) => ({
+		type: "text",
+		text: link ? { content: chunk, link: { url: link } } : { content: chunk },
+		...withAnnotations(annotations),
+	}));
+}
+
+// Plain, unformatted text (e.g. code block contents) as rich_text runs
+export function plainRichText(content: string): RichTextItem[] {
+	return content ? textItems(content, {}, undefined) : [];
+}
+
+// Convert a line of inline Markdown into rich_text segments
+export function markdownToRichText(text: string): RichTextItem[] {
+	const out: RichTextItem[] = [];
+	tokenize(text, {}, undefined, out);
+	return out;
+}
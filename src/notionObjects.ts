@@ -0,0 +1,60 @@
+// Shapes shared by the modules that talk to the Notion API: reading titles and text out of
+// pages, databases and rich_text arrays, following paginated list endpoints, and the formats
+// of IDs and dates the API accepts.
+
+// A client endpoint, for the parts of the Notion client a module uses, so it can run against a
+// fake in tests
+export type Endpoint = (args: any) => Promise<any>;
+
+// Property schemas as returned by databases.retrieve
+export type DatabaseSchema = Record<string, { type: string;[key: string]: any }>;
+
+export const UUID = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+// A date, or a date and time like 2026-11-01T09:00:00Z
+export const DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+// The text of a rich_text array, from an API response or a request
+export function plainText(richText: any[] | undefined): string {
+	return richText?.map((item) => item.plain_text ?? item.text?.content ?? item.equation?.expression ?? "").join("") || "";
+}
+
+// Title of a page (from its title property) or of a database
+export function titleOf(item: any): string {
+	if (item.object === "database") {
+		return plainText(item.title) || "Untitled Database";
+	}
+	const title: any = Object.values(item.properties || {}).find((property: any) => property.type === "title");
+	return plainText(title?.title) || "Untitled";
+}
+
+export type PaginatedList<T> = { results: T[]; has_more: boolean; next_cursor: string | null };
+
+/**
+ * Collect results from a paginated endpoint starting at `startCursor`. Without `fetchAll` a
+ * single page is fetched; with it, next_cursor is followed until `maxResults` are collected.
+ * `nextCursor` is set whenever more results remain.
+ */
+export async function paginate<T>(
+	fetchPage: (startCursor: string | undefined, pageSize: number) => Promise<PaginatedList<T>>,
+	{ startCursor, pageSize = 100, fetchAll = false, maxResults = Infinity }: {
+		startCursor?: string;
+		pageSize?: number;
+		fetchAll?: boolean;
+		maxResults?: number;
+	},
+): Promise<{ results: T[]; nextCursor: string | null }> {
+	const results: T[] = [];
+	let cursor = startCursor;
+
+	while (true) {
+		const size = fetchAll ? Math.min(100, maxResults - results.length) : pageSize;
+		const response = await fetchPage(cursor, size);
+		results.push(...response.results);
+
+		const nextCursor = response.has_more ? response.next_cursor : null;
+		if (!fetchAll || !nextCursor || results.length >= maxResults) {
+			return { results, nextCursor };
+		}
+		cursor = nextCursor;
+	}
+}
@@ -0,0 +1,288 @@
+// Export a page and everything under it (child pages, databases and their rows, at any depth) to a
+// directory of Markdown files for offline backup and search. A page "Wiki" becomes Wiki.md, with
+// its child pages in Wiki/; a database "Tasks" becomes Tasks.csv, with one file per row in Tasks/.
+// Links between exported pages are rewritten to relative links.
+//
+// The directory keeps a manifest of what was exported. Running the export again only fetches the
+// content of pages whose last_edited_time changed, rewrites files whose links moved, and removes
+// the files of pages that are gone.
+
+import { access, mkdir, readFile, rm, rmdir, writeFile } from "node:fs/promises";
+import { dirname, join, posix } from "node:path";
+import { normalizeId } from "./ancestry.js";
+import { blocksToMarkdown, NotionBlock } from "./blocksToMarkdown.js";
+import { Endpoint, paginate, plainText, titleOf } from "./notionObjects.js";
+import { defaultColumns, formatRows, rowValues } from "./propertyValues.js";
+
+// The parts of the Notion client the export uses
+export interface ExportClient {
+	pages: { retrieve: Endpoint };
+	databases: { retrieve: Endpoint; query: Endpoint };
+}
+
+type ItemKind = "page" | "database";
+
+interface ExportedItem {
+	kind: ItemKind;
+	// Relative to the export directory, with "/" separators and without extension; the item's
+	// children are exported into the directory of the same name
+	path: string;
+	lastEditedTime: string;
+	// Child pages and databases, so pages that didn't change needn't be fetched again
+	children: Array<{ id: string; kind: ItemKind }>;
+	// Pages and databases the page links to
+	links: string[];
+}
+
+interface Manifest {
+	rootId: string;
+	items: Record<string, ExportedItem>;
+}
+
+export interface ExportSummary {
+	title: string;
+	written: number;
+	unchanged: number;
+	removed: number;
+	// Pages and databases that couldn't be exported, with the reason
+	failures: string[];
+}
+
+const MANIFEST = ".notion-export.json";
+const NOTION_LINK = /\]\(((?:https?:\/\/(?:www\.)?notion\.so)?\/[^)\s]*)\)/g;
+
+// A title made safe to use as a file name on any system
+function fileName(title: string): string {
+	const name = title
+		.replace(/[\/\\:*?"<>|\x00-\x1f]/g, "-")
+		.replace(/\s+/g, " ")
+		.replace(/^[\s.]+/, "")
+		.slice(0, 80)
+		.trim();
+	return name || "Untitled";
+}
+
+// The page or database a Notion link points to, from URLs like /<id> or https://www.notion.so/Title-<id>
+function linkedId(url: string): string | undefined {
+	return url.match(/([0-9a-f]{32})(?:[?#][^/]*)?$/i)?.[1].toLowerCase();
+}
+
+// Child pages and databases, wherever they are nested in the page
+function childDocuments(blocks: NotionBlock[]): Array<{ id: string; kind: ItemKind }> {
+	return blocks.flatMap((block) => {
+		if (block.type === "child_page") return [{ id: normalizeId(block.id), kind: "page" as const }];
+		if (block.type === "child_database") return [{ id: normalizeId(block.id), kind: "database" as const }];
+		return childDocuments(block.children || []);
+	});
+}
+
+function frontMatter(fields: Record<string, unknown>): string {
+	const lines = Object.entries(fields).flatMap(([key, value]) => {
+		if (value && typeof value === "object" && !Array.isArray(value)) {
+			const entries = Object.entries(value);
+			return entries.length === 0 ? [] : [`${key}:`, ...entries.map(([name, item]) => `  ${JSON.stringify(name)}: ${JSON.stringify(item)}`)];
+		}
+		return [`${key}: ${JSON.stringify(value)}`];
+	});
+	// JSON values are valid YAML
+	return ["---", ...lines, "---"].join("\n");
+}
+
+async function exists(path: string): Promise<boolean> {
+	return access(path).then(() => true, () => false);
+}
+
+export class PageExporter {
+	private previous: Record<string, ExportedItem> = {};
+	private items = new Map<string, ExportedItem>();
+	// Page objects and, for pages fetched during this run, their content as Markdown
+	private pages = new Map<string, any>();
+	private content = new Map<string, string>();
+	private tables = new Map<string, string>();
+	private taken = new Set<string>();
+	private failures: string[] = [];
+
+	constructor(
+		private readonly notion: ExportClient,
+		// The page's blocks with nested blocks attached as `children`
+		private readonly fetchBlocks: (pageId: string) => Promise<NotionBlock[]>,
+		private readonly dir: string,
+	) {}
+
+	async export(rootId: string): Promise<ExportSummary> {
+		const manifest = await this.loadManifest();
+		if (manifest && manifest.rootId !== normalizeId(rootId)) {
+			throw new Error(`${this.dir} holds an export of ${manifest.rootId}, not ${rootId}; export each page into its own directory`);
+		}
+		this.previous = manifest?.items ?? {};
+
+		const root = await this.notion.pages.retrieve({ page_id: rootId });
+		await this.visitPage(root, "");
+
+		// Files of pages that were deleted or moved go first, since a moved page's old place may be
+		// taken by another. If anything failed, its files are kept rather than taken for deleted
+		let removed = 0;
+		for (const [id, item] of Object.entries(this.previous)) {
+			const current = this.items.get(id);
+			if ((current || this.failures.length === 0) && current?.path !== item.path) {
+				await this.remove(this.fileOf(item));
+				removed++;
+			}
+		}
+
+		let written = 0;
+		for (const [id, item] of this.items) {
+			if (await (item.kind === "page" ? this.writePage(id, item) : this.writeTable(id, item))) {
+				written++;
+			}
+		}
+
+		await writeFile(join(this.dir, MANIFEST), JSON.stringify({ rootId: normalizeId(rootId), items: Object.fromEntries(this.items) } satisfies Manifest, null, 2));
+		return { title: titleOf(root), written, unchanged: this.items.size - written, removed, failures: this.failures };
+	}
+
+	private async loadManifest(): Promise<Manifest | undefined> {
+		try {
+			return JSON.parse(await readFile(join(this.dir, MANIFEST), "utf8"));
+		} catch (error: any) {
+			if (error.code === "ENOENT") return undefined;
+			throw error;
+		}
+	}
+
+	private fileOf(item: ExportedItem): string {
+		return `${item.path}.${item.kind === "page" ? "md" : "csv"}`;
+	}
+
+	// A path for a child of `parentDir`, unique even on case-insensitive file systems
+	private allocate(parentDir: string, title: string, id: string): string {
+		let path = posix.join(parentDir, fileName(title));
+		if (this.taken.has(path.toLowerCase())) {
+			path = `${path} ${id.slice(0, 8)}`;
+		}
+		this.taken.add(path.toLowerCase());
+		return path;
+	}
+
+	private async visitPage(page: any, parentDir: string): Promise<void> {
+		const id = normalizeId(page.id);
+		if (this.items.has(id) || page.archived || page.in_trash) {
+			return;
+		}
+
+		const path = this.allocate(parentDir, titleOf(page), id);
+		const previous = this.previous[id];
+		let item: ExportedItem;
+		if (previous?.kind === "page" && previous.lastEditedTime === page.last_edited_time) {
+			item = { ...previous, path };
+		} else {
+			const blocks = await this.fetchBlocks(page.id);
+			const markdown = blocksToMarkdown(blocks);
+			const links = [...markdown.matchAll(NOTION_LINK)].map((match) => linkedId(match[1])).filter((link) => link !== undefined);
+			this.content.set(id, markdown);
+			item = { kind: "page", path, lastEditedTime: page.last_edited_time, children: childDocuments(blocks), links: [...new Set(links)] };
+		}
+		this.items.set(id, item);
+		this.pages.set(id, page);
+
+		for (const child of item.children) {
+			try {
+				if (child.kind === "page") {
+					await this.visitPage(await this.notion.pages.retrieve({ page_id: child.id }), path);
+				} else {
+					await this.visitDatabase(child.id, path);
+				}
+			} catch (error) {
+				this.failures.push(`${child.kind} ${child.id}: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}
+	}
+
+	private async visitDatabase(databaseId: string, parentDir: string): Promise<void> {
+		const database = await this.notion.databases.retrieve({ database_id: databaseId });
+		const id = normalizeId(database.id);
+		if (this.items.has(id)) {
+			return;
+		}
+
+		const { results: rows } = await paginate<any>(
+			(start_cursor, page_size) => this.notion.databases.query({ database_id: databaseId, start_cursor, page_size }),
+			{ fetchAll: true },
+		);
+
+		const path = this.allocate(parentDir, plainText(database.title) || "Untitled", id);
+		this.items.set(id, { kind: "database", path, lastEditedTime: database.last_edited_time, children: [], links: [] });
+		this.tables.set(id, formatRows(rows, "csv", defaultColumns([database])) + "\n");
+
+		for (const row of rows) {
+			try {
+				await this.visitPage(row, path);
+			} catch (error) {
+				this.failures.push(`page ${row.id}: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}
+	}
+
+	// Whether the page's file has to be (re)written: it is new, changed, moved, missing, or one of
+	// the pages it links to moved
+	private async pageIsStale(id: string, item: ExportedItem): Promise<boolean> {
+		const previous = this.previous[id];
+		return (
+			this.content.has(id) ||
+			previous?.path !== item.path ||
+			item.links.some((link) => this.previous[link]?.path !== this.items.get(link)?.path) ||
+			!(await exists(join(this.dir, this.fileOf(item))))
+		);
+	}
+
+	private async writePage(id: string, item: ExportedItem): Promise<boolean> {
+		if (!(await this.pageIsStale(id, item))) {
+			return false;
+		}
+
+		const page = this.pages.get(id);
+		const markdown = this.content.get(id) ?? blocksToMarkdown(await this.fetchBlocks(page.id));
+		const { id: _, ...properties } = rowValues(page);
+		for (const [name, property] of Object.entries<any>(page.properties || {})) {
+			if (property.type === "title") delete properties[name];
+		}
+
+		const body = markdown.replace(NOTION_LINK, (link, url) => {
+			const target = this.items.get(linkedId(url) ?? "");
+			if (!target) return link;
+			const relative = posix.relative(posix.dirname(item.path), this.fileOf(target));
+			return `](${relative.split("/").map(encodeURIComponent).join("/")})`;
+		});
+		const header = frontMatter({ id: page.id, url: page.url, last_edited_time: page.last_edited_time, properties });
+		await this.write(this.fileOf(item), `${header}\n\n# ${titleOf(page)}\n${body ? `\n${body}\n` : ""}`);
+		return true;
+	}
+
+	private async writeTable(id: string, item: ExportedItem): Promise<boolean> {
+		const csv = this.tables.get(id)!;
+		const existing = await readFile(join(this.dir, this.fileOf(item)), "utf8").catch(() => undefined);
+		if (existing === csv) {
+			return false;
+		}
+		await this.write(this.fileOf(item), csv);
+		return true;
+	}
+
+	private async write(file: string, text: string): Promise<void> {
+		const path = join(this.dir, file);
+		await mkdir(dirname(path), { recursive: true });
+		await writeFile(path, text);
+	}
+
+	// Remove a file, and the directories above it that are left empty
+	private async remove(file: string): Promise<void> {
+		await rm(join(this.dir, file), { force: true });
+		for (let dir = posix.dirname(file); dir !== "."; dir = posix.dirname(dir)) {
+			try {
+				await rmdir(join(this.dir, dir));
+			} catch {
+				return;
+			}
+		}
+	}
+}
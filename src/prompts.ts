@@ -0,0 +1,159 @@
+// Prompt templates for common Notion workflows. Each template is a user message with {{argument}}
+// placeholders plus resource URIs (same placeholders) whose content is embedded in the prompt.
+// Teams can add their own templates as JSON files in a directory (NOTION_PROMPTS_DIR).
+
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { z } from "zod";
+
+const promptTemplateSchema = z.object({
+	name: z.string().regex(/^[a-z0-9_-]+$/i, "use letters, digits, _ and - only"),
+	description: z.string(),
+	arguments: z.array(z.object({
+		name: z.string(),
+		description: z.string().optional(),
+		required: z.boolean().optional(),
+		// Used when the argument is not given
+		default: z.string().optional(),
+	})).default([]),
+	text: z.string(),
+	resources: z.array(z.string()).default([]),
+});
+
+export type PromptTemplate = z.infer<typeof promptTemplateSchema>;
+
+export interface EmbeddedResource {
+	uri: string;
+	mimeType?: string;
+	text: string;
+}
+
+export const BUILT_IN_PROMPTS: PromptTemplate[] = [
+	{
+		name: "summarize_page",
+		description: "Summarize a Notion page",
+		arguments: [
+			{ name: "pageId", description: "ID of the page to summarize", required: true },
+			{ name: "focus", description: "What the summary should concentrate on (optional)", default: "the main points" },
+		],
+		text: "Summarize the attached Notion page in a few short paragraphs, focusing on {{focus}}. Then list its key decisions and any open questions.",
+		resources: ["notion://page/{{pageId}}"],
+	},
+	{
+		name: "meeting_notes",
+		description: "Turn raw meeting notes into a structured item in a meeting notes database",
+		arguments: [
+			{ name: "databaseId", description: "ID of the meeting notes database", required: true },
+			{ name: "notes", description: "Raw notes or transcript", required: true },
+			{ name: "title", description: "Title for the new item (optional)", default: "Meeting notes" },
+		],
+		text: [
+			"Turn the raw notes below into structured meeting notes: attendees, summary, decisions and action items with owners and due dates.",
+			"Then add them to the attached database with create_page, titled \"{{title}}\", filling in the properties its existing items use (check retrieve_database for their types).",
+			"",
+			"Notes:",
+			"{{notes}}",
+		].join("\n"),
+		resources: ["notion://database/{{databaseId}}?format=markdown"],
+	},
+	{
+		name: "triage_tasks",
+		description: "Triage the open tasks in a task database",
+		arguments: [
+			{ name: "databaseId", description: "ID of the task database", required: true },
+		],
+		text: [
+			"Triage the open tasks in the attached database: flag overdue, stale and unassigned items, and propose a priority and owner for each.",
+			"List the changes you would make with update_database_item, and don't apply them until I confirm.",
+		].join("\n"),
+		resources: ["notion://database/{{databaseId}}?format=markdown"],
+	},
+	{
+		name: "status_report",
+		description: "Draft a status report from recent edits",
+		arguments: [
+			{ name: "rootId", description: "Page or database to report on (optional; the whole workspace by default)", default: "" },
+			{ name: "days", description: "How many days back to look (default 7)", default: "7" },
+			{ name: "audience", description: "Who the report is for (optional)", default: "the team" },
+		],
+		text: [
+			"Draft a status report for {{audience}} from the Notion edits of the last {{days}} days listed in the attachment.",
+			"Group the work by project or area, highlight what was completed and what is blocked, and read the pages with read_page where the titles alone aren't enough.",
+		].join("\n"),
+		resources: ["notion://changes/{{rootId}}?days={{days}}"],
+	},
+];
+
+/**
+ * Load templates from the .json files in `dir` (each holding one template or an array of them).
+ * Invalid files are reported and skipped.
+ */
+export async function loadPromptTemplates(dir: string): Promise<PromptTemplate[]> {
+	const templates: PromptTemplate[] = [];
+	const files = (await readdir(dir)).filter((file) => file.endsWith(".json")).sort();
+
+	for (const file of files) {
+		try {
+			const data = JSON.parse(await readFile(join(dir, file), "utf8"));
+			const result = z.array(promptTemplateSchema).safeParse(Array.isArray(data) ? data : [data]);
+			if (!result.success) {
+				console.error(`Skipping prompt file ${file}: ${result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`);
+				continue;
+			}
+			templates.push(...result.data);
+		} catch (error) {
+			console.error(`Skipping prompt file ${file}:`, error);
+		}
+	}
+
+	return templates;
+}
+
+// Built-in templates, overridden by custom ones with the same name
+export function mergePromptTemplates(builtIn: PromptTemplate[], custom: PromptTemplate[]): PromptTemplate[] {
+	const byName = new Map(builtIn.map((template) => [template.name, template]));
+	for (const template of custom) {
+		byName.set(template.name, template);
+	}
+	return [...byName.values()];
+}
+
+export class PromptArgumentError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "PromptArgumentError";
+	}
+}
+
+function fill(text: string, values: Record<string, string>, encode: (value: string) => string = (value) => value): string {
+	return text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => encode(values[name] ?? ""));
+}
+
+/**
+ * Fill in a template and fetch the resources it embeds, giving the messages of a
+ * prompts/get result.
+ */
+export async function renderPrompt(
+	template: PromptTemplate,
+	args: Record<string, string>,
+	readResource: (uri: string) => Promise<EmbeddedResource>,
+) {
+	const values: Record<string, string> = {};
+	for (const argument of template.arguments) {
+		const value = args[argument.name] ?? argument.default;
+		if (value === undefined && argument.required) {
+			throw new PromptArgumentError(`Missing required argument "${argument.name}" for prompt ${template.name}`);
+		}
+		values[argument.name] = value ?? "";
+	}
+
+	const resources = await Promise.all(template.resources.map((uri) => readResource(fill(uri, values, encodeURIComponent))));
+
+	return {
+		description: template.description,
+		messages: [
+			{ role: "user" as const, content: { type: "text" as const, text: fill(template.text, values) } },
+			...resources.map((resource) => ({ role: "user" as const, content: { type: "resource" as const, resource } })),
+		],
+	};
+}
@@ -0,0 +1,289 @@
+// Convert simple values such as {"Status": "Done", "Due": "2026-11-01", "Tags": ["a", "b"],
+// "Owner": "alice@corp"} into Notion property values, using the database schema to pick the
+// shape for each property and resolving select options, people and relation targets.
+// Values that are already in Notion's property format are passed through unchanged.
+
+import { Client } from "@notionhq/client";
+import { richTextRequests } from "./blockRequests.js";
+import { markdownToRichText } from "./markdownToRichText.js";
+import { DatabaseSchema, DATE, paginate, UUID } from "./notionObjects.js";
+import { ToolError } from "./toolErrors.js";
+
+export interface PropertyError {
+	property: string;
+	message: string;
+}
+
+export class PropertyCoercionError extends ToolError {
+	constructor(public readonly errors: PropertyError[]) {
+		super("validation", `Invalid properties:\n${errors.map((error) => `- ${error.property}: ${error.message}`).join("\n")}`);
+		this.name = "PropertyCoercionError";
+	}
+}
+
+// Thrown inside a single property's conversion; collected into a PropertyCoercionError
+class FieldError extends Error {}
+
+const READ_ONLY_TYPES = new Set([
+	"formula",
+	"rollup",
+	"created_time",
+	"created_by",
+	"last_edited_time",
+	"last_edited_by",
+	"unique_id",
+	"verification",
+	"button",
+]);
+
+// Lists can be given as arrays or comma-separated strings
+function toList(value: unknown): unknown[] {
+	if (Array.isArray(value)) return value;
+	if (typeof value === "string") return value.split(",").map((item) => item.trim()).filter(Boolean);
+	return [value];
+}
+
+function toText(value: unknown): string {
+	if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+		return String(value);
+	}
+	throw new FieldError(`expected text, got ${JSON.stringify(value)}`);
+}
+
+function resolveOption(value: unknown, options: Array<{ name: string }>, type: string): string {
+	const name = toText(value);
+	const match = options.find((option) => option.name === name) ?? options.find((option) => option.name.toLowerCase() === name.toLowerCase());
+	if (!match) {
+		throw new FieldError(`"${name}" is not a ${type} option. Options: ${options.map((option) => option.name).join(", ") || "(none)"}`);
+	}
+	return match.name;
+}
+
+function parseDate(value: unknown): { start: string; end?: string | null } {
+	if (value && typeof value === "object" && "start" in value) {
+		return value as { start: string; end?: string | null };
+	}
+	const text = toText(value);
+	const [start, end, ...rest] = text.split(/\s*(?:→|\/|\.\.)\s*/);
+	if (rest.length > 0 || ![start, end].filter(Boolean).every((date) => DATE.test(date))) {
+		throw new FieldError(`"${text}" is not a date like 2026-11-01, 2026-11-01T09:00:00Z or 2026-11-01 → 2026-11-05`);
+	}
+	return end ? { start, end } : { start };
+}
+
+/**
+ * Converts simple values for one database, caching the lookups (users, relation
+ * targets) it needs along the way.
+ */
+export class PropertyCoercer {
+	private users?: Promise<any[]>;
+	private titleProperties = new Map<string, Promise<string>>();
+
+	constructor(
+		private readonly notion: Client,
+		private readonly schema: DatabaseSchema,
+		// Throws if a related database may not be used (see AccessPolicy)
+		private readonly checkRelatedDatabase: (databaseId: string) => Promise<void> = async () => {},
+	) {}
+
+	// Property name in the schema, allowing a case-insensitive match
+	private resolveName(name: string): string | undefined {
+		if (this.schema[name]) return name;
+		return Object.keys(this.schema).find((key) => key.toLowerCase() === name.toLowerCase());
+	}
+
+	titlePropertyName(): string | undefined {
+		return Object.keys(this.schema).find((name) => this.schema[name].type === "title");
+	}
+
+	async coerce(values: Record<string, unknown>): Promise<Record<string, any>> {
+		const properties: Record<string, any> = {};
+		const errors: PropertyError[] = [];
+
+		for (const [name, value] of Object.entries(values)) {
+			const resolved = this.resolveName(name);
+			if (!resolved) {
+				errors.push({ property: name, message: `no such property. Available: ${Object.keys(this.schema).join(", ")}` });
+				continue;
+			}
+			try {
+				properties[resolved] = await this.coerceValue(this.schema[resolved], value);
+			} catch (error) {
+				if (!(error instanceof FieldError)) throw error;
+				errors.push({ property: resolved, message: error.message });
+			}
+		}
+
+		if (errors.length > 0) {
+			throw new PropertyCoercionError(errors);
+		}
+		return properties;
+	}
+
+	private async coerceValue(property: DatabaseSchema[string], value: unknown): Promise<any> {
+		const type = property.type;
+
+		if (READ_ONLY_TYPES.has(type)) {
+			throw new FieldError(`${type} properties are computed by Notion and can't be set`);
+		}
+		// Already in Notion's format, e.g. {"select": {"name": "Done"}}
+		if (value && typeof value === "object" && !Array.isArray(value) && type in value) {
+			return value;
+		}
+
+		switch (type) {
+			case "title":
+			case "rich_text":
+				return { [type]: value === null ? [] : markdownToRichText(toText(value)) };
+			case "number": {
+				if (value === null || value === "") return { number: null };
+				const number = typeof value === "number" ? value : Number(toText(value).replace(/[,_\s]/g, ""));
+				if (Number.isNaN(number)) throw new FieldError(`"${value}" is not a number`);
+				return { number };
+			}
+			case "checkbox": {
+				if (typeof value === "boolean") return { checkbox: value };
+				const text = toText(value).toLowerCase();
+				if (["true", "yes", "1", "checked"].includes(text)) return { checkbox: true };
+				if (["false", "no", "0", "unchecked", ""].includes(text)) return { checkbox: false };
+				throw new FieldError(`"${value}" is not a checkbox value; use true or false`);
+			}
+			case "select":
+			case "status":
+				if (value === null || value === "") return { [type]: null };
+				return { [type]: { name: resolveOption(value, property[type].options || [], type) } };
+			case "multi_select":
+				return {
+					multi_select: value === null ? [] : toList(value).map((item) => ({
+						name: resolveOption(item, property.multi_select.options || [], "multi_select"),
+					})),
+				};
+			case "date":
+				return { date: value === null || value === "" ? null : parseDate(value) };
+			case "url":
+			case "email":
+			case "phone_number":
+				return { [type]: value === null || value === "" ? null : toText(value) };
+			case "files":
+				return {
+					files: value === null ? [] : toList(value).map((url) => {
+						const text = toText(url);
+						return { name: text.split("/").pop()?.slice(0, 100) || text, type: "external", external: { url: text } };
+					}),
+				};
+			case "people":
+				return { people: value === null ? [] : await Promise.all(toList(value).map((person) => this.resolvePerson(person))) };
+			case "relation":
+				await this.checkRelatedDatabase(property.relation.database_id);
+				return {
+					relation: value === null ? [] : await Promise.all(toList(value).map((target) => this.resolveRelation(property.relation.database_id, target))),
+				};
+			default:
+				throw new FieldError(`${type} properties are not supported`);
+		}
+	}
+
+	// ID of the person or related page a query expression names (see ReferenceResolver)
+	async referenceId(property: DatabaseSchema[string], value: string): Promise<string> {
+		try {
+			if (property.type === "relation") {
+				await this.checkRelatedDatabase(property.relation.database_id);
+				return (await this.resolveRelation(property.relation.database_id, value)).id;
+			}
+			return (await this.resolvePerson(value)).id;
+		} catch (error) {
+			if (error instanceof FieldError) throw new ToolError("validation", error.message);
+			throw error;
+		}
+	}
+
+	// People can be given by user ID, email or (unique) name
+	private async resolvePerson(value: unknown): Promise<{ id: string }> {
+		const text = toText(value);
+		if (UUID.test(text)) {
+			return { id: text };
+		}
+
+		this.users ??= this.listUsers();
+		const users = await this.users;
+		const lower = text.toLowerCase();
+		const matches = users.filter((user) =>
+			user.person?.email?.toLowerCase() === lower || user.name?.toLowerCase() === lower,
+		);
+		if (matches.length === 0) {
+			throw new FieldError(`no workspace member with email or name "${text}"`);
+		}
+		if (matches.length > 1) {
+			throw new FieldError(`"${text}" matches ${matches.length} people; use their email or ID`);
+		}
+		return { id: matches[0].id };
+	}
+
+	private async listUsers(): Promise<any[]> {
+		const { results } = await paginate(
+			(start_cursor, page_size) => this.notion.users.list({ start_cursor, page_size }),
+			{ fetchAll: true },
+		);
+		return results;
+	}
+
+	// Relation targets can be given by page ID or by the title of a page in the related database
+	private async resolveRelation(databaseId: string, value: unknown): Promise<{ id: string }> {
+		const text = toText(value);
+		if (UUID.test(text)) {
+			return { id: text };
+		}
+
+		if (!this.titleProperties.has(databaseId)) {
+			this.titleProperties.set(databaseId, this.notion.databases.retrieve({ database_id: databaseId }).then((database) =>
+				Object.keys(database.properties).find((name) => database.properties[name].type === "title") ?? "title",
+			));
+		}
+		const titleProperty = await this.titleProperties.get(databaseId)!;
+
+		const response = await this.notion.databases.query({
+			database_id: databaseId,
+			filter: { property: titleProperty, title: { equals: text } },
+			page_size: 2,
+		});
+		if (response.results.length === 0) {
+			throw new FieldError(`no page titled "${text}" in the related database`);
+		}
+		if (response.results.length > 1) {
+			throw new FieldError(`more than one page is titled "${text}" in the related database; use the page ID`);
+		}
+		return { id: response.results[0].id };
+	}
+}
+
+/**
+ * Turn a property value read from the API back into one that can be written, e.g. to restore a
+ * snapshot. Null for computed properties, and for relations too long to have been read in full.
+ */
+export function toPropertyRequest(property: any): any | null {
+	const type = property.type;
+	const value = property[type];
+	if (READ_ONLY_TYPES.has(type) || property.has_more) {
+		return null;
+	}
+
+	switch (type) {
+		case "title":
+		case "rich_text":
+			return { [type]: richTextRequests(value) ?? [] };
+		case "select":
+		case "status":
+			return { [type]: value ? { name: value.name } : null };
+		case "multi_select":
+			return { multi_select: value.map((option: any) => ({ name: option.name })) };
+		case "people":
+		case "relation":
+			return { [type]: value.map((item: any) => ({ id: item.id })) };
+		case "files":
+			// Uploaded files can't be set through the API
+			return { files: value.filter((file: any) => file.type === "external").map((file: any) => ({ name: file.name, type: "external", external: { url: file.external.url } })) };
+		default:
+			// number, checkbox, date, url, email, phone_number
+			return { [type]: value };
+	}
+}
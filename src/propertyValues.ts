@@ -0,0 +1,133 @@
+// Reduce Notion property values to plain values and render database rows compactly,
+// instead of returning the raw property objects with their nested rich_text arrays.
+
+import { plainText } from "./notionObjects.js";
+
+export type PlainValue = string | number | boolean | null | PlainValue[];
+
+export type RowFormat = "markdown" | "csv" | "json";
+
+function formatDate(date: any): string | null {
+	if (!date) {
+		return null;
+	}
+	return date.end ? `${date.start} → ${date.end}` : date.start;
+}
+
+function userName(user: any): string {
+	return user?.name || user?.person?.email || user?.id || "";
+}
+
+// Plain value of a property (or of a formula/rollup result, which share the same shapes)
+export function propertyValue(property: any): PlainValue {
+	if (!property) {
+		return null;
+	}
+
+	switch (property.type) {
+		case "title":
+		case "rich_text":
+			return plainText(property[property.type]);
+		case "number":
+		case "checkbox":
+		case "url":
+		case "email":
+		case "phone_number":
+		case "created_time":
+		case "last_edited_time":
+		case "string":
+		case "boolean":
+			return property[property.type] ?? null;
+		case "select":
+		case "status":
+			return property[property.type]?.name ?? null;
+		case "multi_select":
+			return property.multi_select.map((option: any) => option.name);
+		case "date":
+			return formatDate(property.date);
+		case "people":
+			return property.people.map(userName);
+		case "created_by":
+		case "last_edited_by":
+			return userName(property[property.type]);
+		case "relation":
+			return property.relation.map((relation: any) => relation.id);
+		case "files":
+			return property.files.map((file: any) => (file.type === "external" ? file.external.url : file.file?.url) || file.name);
+		case "formula":
+			return propertyValue(property.formula);
+		case "rollup":
+			return propertyValue(property.rollup);
+		case "array":
+			// Rollups that show the original values
+			return property.array.map(propertyValue);
+		case "unique_id":
+			return property.unique_id.number === null
+				? null
+				: `${property.unique_id.prefix ? property.unique_id.prefix + "-" : ""}${property.unique_id.number}`;
+		case "verification":
+			return property.verification?.state ?? null;
+		default:
+			return null;
+	}
+}
+
+// Flatten a database row (a page) into { id, ...column: value }
+export function rowValues(page: any): Record<string, PlainValue> {
+	const row: Record<string, PlainValue> = { id: page.id };
+	for (const [name, property] of Object.entries<any>(page.properties || {})) {
+		row[name] = propertyValue(property);
+	}
+	return row;
+}
+
+function cellText(value: PlainValue): string {
+	if (value === null) {
+		return "";
+	}
+	if (Array.isArray(value)) {
+		return value.map(cellText).join(", ");
+	}
+	return String(value);
+}
+
+function csvCell(value: PlainValue): string {
+	const text = cellText(value);
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(value: PlainValue): string {
+	return cellText(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+// Column order: id, then the title property, then the rest in schema order
+export function defaultColumns(pages: any[]): string[] {
+	const properties = pages[0]?.properties || {};
+	const names = Object.keys(properties);
+	const title = names.filter((name) => properties[name].type === "title");
+	return ["id", ...title, ...names.filter((name) => properties[name].type !== "title")];
+}
+
+/**
+ * Render database rows as a Markdown table, CSV or compact JSON.
+ * `columns` selects and orders the properties to include ("id" is the page ID).
+ */
+export function formatRows(pages: any[], format: RowFormat, columns: string[] = defaultColumns(pages)): string {
+	const rows = pages.map(rowValues);
+
+	if (format === "json") {
+		return JSON.stringify(rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? null]))));
+	}
+
+	if (format === "csv") {
+		return [columns.map((column) => csvCell(column)), ...rows.map((row) => columns.map((column) => csvCell(row[column] ?? null)))]
+			.map((cells) => cells.join(","))
+			.join("\n");
+	}
+
+	return [
+		`| ${columns.map(markdownCell).join(" | ")} |`,
+		`| ${columns.map(() => "---").join(" | ")} |`,
+		...rows.map((row) => `| ${columns.map((column) => markdownCell(row[column] ?? null)).join(" | ")} |`),
+	].join("\n");
+}
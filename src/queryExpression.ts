@@ -0,0 +1,440 @@
+// Compile a compact filter syntax such as
+//   Status = "Done" and (Due < 2026-11-01 or Tags contains "infra")
+// and sort lists such as "Due desc, Name" into Notion's filter and sort objects,
+// checking property names, operators and select options against the database schema.
+
+import { DatabaseSchema, DATE, UUID } from "./notionObjects.js";
+import { ToolError } from "./toolErrors.js";
+
+export class QueryExpressionError extends ToolError {
+	constructor(message: string) {
+		super("validation", message);
+		this.name = "QueryExpressionError";
+	}
+}
+
+/**
+ * Looks up the ID of the person (by email or name) or related page (by title) a people,
+ * created_by, last_edited_by or relation condition names. Throws a "validation" ToolError
+ * when nothing matches.
+ */
+export type ReferenceResolver = (property: DatabaseSchema[string], value: string) => Promise<string>;
+
+type Token =
+	| { kind: "paren"; value: "(" | ")"; position: number }
+	| { kind: "string"; value: string; position: number }
+	| { kind: "symbol"; value: string; position: number }
+	| { kind: "word"; value: string; position: number };
+
+type Operator =
+	| "=" | "!=" | "<" | "<=" | ">" | ">="
+	| "contains" | "does not contain" | "starts with" | "ends with" | "is empty" | "is not empty";
+
+// Multi-word operators, longest first so "is not empty" wins over "is empty"
+const WORD_OPERATORS: Array<[string[], Operator]> = [
+	[["does", "not", "contain"], "does not contain"],
+	[["not", "contains"], "does not contain"],
+	[["is", "not", "empty"], "is not empty"],
+	[["starts", "with"], "starts with"],
+	[["ends", "with"], "ends with"],
+	[["is", "empty"], "is empty"],
+	[["contains"], "contains"],
+];
+
+const COMPARISONS: Record<string, string> = {
+	"=": "equals",
+	"!=": "does_not_equal",
+	"contains": "contains",
+	"does not contain": "does_not_contain",
+	"starts with": "starts_with",
+	"ends with": "ends_with",
+	"is empty": "is_empty",
+	"is not empty": "is_not_empty",
+};
+
+const NUMBER_COMPARISONS: Record<string, string> = {
+	"=": "equals",
+	"!=": "does_not_equal",
+	"<": "less_than",
+	"<=": "less_than_or_equal_to",
+	">": "greater_than",
+	">=": "greater_than_or_equal_to",
+	"is empty": "is_empty",
+	"is not empty": "is_not_empty",
+};
+
+const DATE_COMPARISONS: Record<string, string> = {
+	"=": "equals",
+	"<": "before",
+	"<=": "on_or_before",
+	">": "after",
+	">=": "on_or_after",
+	"is empty": "is_empty",
+	"is not empty": "is_not_empty",
+};
+
+// Operators each property type accepts, mapped to the Notion condition name
+const TYPE_OPERATORS: Record<string, Record<string, string>> = {
+	title: COMPARISONS,
+	rich_text: COMPARISONS,
+	url: COMPARISONS,
+	email: COMPARISONS,
+	phone_number: COMPARISONS,
+	number: NUMBER_COMPARISONS,
+	unique_id: NUMBER_COMPARISONS,
+	checkbox: { "=": "equals", "!=": "does_not_equal" },
+	select: { "=": "equals", "!=": "does_not_equal", "is empty": "is_empty", "is not empty": "is_not_empty" },
+	status: { "=": "equals", "!=": "does_not_equal", "is empty": "is_empty", "is not empty": "is_not_empty" },
+	multi_select: { "contains": "contains", "does not contain": "does_not_contain", "is empty": "is_empty", "is not empty": "is_not_empty" },
+	people: { "contains": "contains", "does not contain": "does_not_contain", "is empty": "is_empty", "is not empty": "is_not_empty" },
+	relation: { "contains": "contains", "does not contain": "does_not_contain", "is empty": "is_empty", "is not empty": "is_not_empty" },
+	files: { "is empty": "is_empty", "is not empty": "is_not_empty" },
+	date: DATE_COMPARISONS,
+	created_time: DATE_COMPARISONS,
+	last_edited_time: DATE_COMPARISONS,
+};
+TYPE_OPERATORS.created_by = TYPE_OPERATORS.people;
+TYPE_OPERATORS.last_edited_by = TYPE_OPERATORS.people;
+
+const REFERENCE_TYPES = new Set(["people", "created_by", "last_edited_by", "relation"]);
+
+function tokenize(expression: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < expression.length) {
+		const char = expression[i];
+		if (/\s/.test(char)) {
+			i++;
+		} else if (char === "(" || char === ")") {
+			tokens.push({ kind: "paren", value: char, position: i++ });
+		} else if (char === '"' || char === "'") {
+			let value = "";
+			let j = i + 1;
+			for (; j < expression.length && expression[j] !== char; j++) {
+				value += expression[j] === "\\" ? expression[++j] : expression[j];
+			}
+			if (j >= expression.length) {
+				throw new QueryExpressionError(`Unterminated string starting at position ${i + 1}`);
+			}
+			tokens.push({ kind: "string", value, position: i });
+			i = j + 1;
+		} else if (/[=!<>]/.test(char)) {
+			const symbol = expression.slice(i).match(/^(!=|<=|>=|=|<|>)/);
+			if (!symbol) {
+				throw new QueryExpressionError(`Unexpected "${char}" at position ${i + 1}`);
+			}
+			tokens.push({ kind: "symbol", value: symbol[1], position: i });
+			i += symbol[1].length;
+		} else {
+			const word = expression.slice(i).match(/^[^\s()"'=!<>]+/)![0];
+			tokens.push({ kind: "word", value: word, position: i });
+			i += word.length;
+		}
+	}
+
+	return tokens;
+}
+
+interface Condition {
+	property: string;
+	operator: Operator;
+	value?: Token;
+}
+
+type Node = { kind: "and" | "or"; children: Node[] } | { kind: "condition"; condition: Condition };
+
+class Parser {
+	private index = 0;
+
+	constructor(private readonly tokens: Token[]) {}
+
+	parse(): Node {
+		const node = this.parseOr();
+		const extra = this.peek();
+		if (extra) {
+			throw new QueryExpressionError(`Unexpected "${extra.value}" at position ${extra.position + 1}; expected "and", "or" or the end of the filter`);
+		}
+		return node;
+	}
+
+	private peek(offset = 0): Token | undefined {
+		return this.tokens[this.index + offset];
+	}
+
+	private isKeyword(token: Token | undefined, keyword: string): boolean {
+		return token?.kind === "word" && token.value.toLowerCase() === keyword;
+	}
+
+	private parseOr(): Node {
+		const children = [this.parseAnd()];
+		while (this.isKeyword(this.peek(), "or")) {
+			this.index++;
+			children.push(this.parseAnd());
+		}
+		return children.length === 1 ? children[0] : { kind: "or", children };
+	}
+
+	private parseAnd(): Node {
+		const children = [this.parsePrimary()];
+		while (this.isKeyword(this.peek(), "and")) {
+			this.index++;
+			children.push(this.parsePrimary());
+		}
+		return children.length === 1 ? children[0] : { kind: "and", children };
+	}
+
+	private parsePrimary(): Node {
+		const token = this.peek();
+		if (!token) {
+			throw new QueryExpressionError("Unexpected end of filter; expected a condition such as Status = \"Done\"");
+		}
+		if (token.kind === "paren" && token.value === "(") {
+			this.index++;
+			const node = this.parseOr();
+			const close = this.peek();
+			if (close?.kind !== "paren" || close.value !== ")") {
+				throw new QueryExpressionError(`Missing ")" for the "(" at position ${token.position + 1}`);
+			}
+			this.index++;
+			return node;
+		}
+		return { kind: "condition", condition: this.parseCondition() };
+	}
+
+	// Match a (possibly multi-word) operator at the current position
+	private matchOperator(): { operator: Operator; length: number } | null {
+		const token = this.peek();
+		if (token?.kind === "symbol") {
+			return { operator: token.value as Operator, length: 1 };
+		}
+		for (const [words, operator] of WORD_OPERATORS) {
+			if (words.every((word, offset) => this.isKeyword(this.peek(offset), word))) {
+				return { operator, length: words.length };
+			}
+		}
+		return null;
+	}
+
+	private parseCondition(): Condition {
+		const start = this.peek()!;
+		let property: string;
+
+		// Property names are a quoted string or one or more bare words up to the operator
+		if (start.kind === "string") {
+			property = start.value;
+			this.index++;
+		} else {
+			const words: string[] = [];
+			while (this.peek()?.kind === "word" && !this.matchOperator()) {
+				words.push(this.peek()!.value);
+				this.index++;
+			}
+			if (words.length === 0) {
+				throw new QueryExpressionError(`Expected a property name at position ${start.position + 1}, found "${start.value}"`);
+			}
+			property = words.join(" ");
+		}
+
+		const match = this.matchOperator();
+		if (!match) {
+			const found = this.peek();
+			throw new QueryExpressionError(
+				found
+					? `Expected an operator after "${property}" at position ${found.position + 1}, found "${found.value}"`
+					: `Expected an operator after "${property}"`,
+			);
+		}
+		this.index += match.length;
+
+		if (match.operator === "is empty" || match.operator === "is not empty") {
+			return { property, operator: match.operator };
+		}
+
+		const value = this.peek();
+		if (!value || value.kind === "paren" || value.kind === "symbol") {
+			throw new QueryExpressionError(`Expected a value after "${property} ${match.operator}"`);
+		}
+		this.index++;
+		return { property, operator: match.operator, value };
+	}
+}
+
+// Find a property by name, falling back to a case-insensitive match
+function findProperty(schema: DatabaseSchema, name: string): [string, DatabaseSchema[string]] {
+	if (schema[name]) {
+		return [name, schema[name]];
+	}
+	const match = Object.keys(schema).find((key) => key.toLowerCase() === name.toLowerCase());
+	if (!match) {
+		throw new QueryExpressionError(`Unknown property "${name}". Available properties: ${Object.keys(schema).join(", ")}`);
+	}
+	return [match, schema[match]];
+}
+
+function parseValue(type: string, name: string, token: Token, options?: any[]): any {
+	const raw = token.value;
+
+	switch (type) {
+		case "number": {
+			const value = Number(raw);
+			if (token.kind !== "word" || Number.isNaN(value)) {
+				throw new QueryExpressionError(`"${name}" is a number property; "${raw}" is not a number`);
+			}
+			return value;
+		}
+		case "unique_id": {
+			// Accept both 12 and TASK-12
+			const value = Number(raw.replace(/^[A-Za-z]+-/, ""));
+			if (!Number.isInteger(value)) {
+				throw new QueryExpressionError(`"${name}" is an ID property; "${raw}" is not an ID number`);
+			}
+			return value;
+		}
+		case "checkbox":
+			if (raw.toLowerCase() !== "true" && raw.toLowerCase() !== "false") {
+				throw new QueryExpressionError(`"${name}" is a checkbox; use true or false instead of "${raw}"`);
+			}
+			return raw.toLowerCase() === "true";
+		case "date":
+		case "created_time":
+		case "last_edited_time":
+			if (!DATE.test(raw)) {
+				throw new QueryExpressionError(`"${name}" is a date property; "${raw}" is not a date like 2026-11-01`);
+			}
+			return raw;
+		case "select":
+		case "status":
+		case "multi_select":
+			if (options && !options.some((option) => option.name === raw)) {
+				throw new QueryExpressionError(`"${raw}" is not an option of "${name}". Options: ${options.map((option) => option.name).join(", ")}`);
+			}
+			return raw;
+		default:
+			return raw;
+	}
+}
+
+// Formula results have no declared type in the schema, so it is inferred from the value
+function compileFormula(name: string, condition: Condition): any {
+	const { operator, value } = condition;
+	let resultType: string;
+
+	if (!value) {
+		resultType = "string";
+	} else if (value.kind === "word" && /^(true|false)$/i.test(value.value)) {
+		resultType = "checkbox";
+	} else if (value.kind === "word" && DATE.test(value.value)) {
+		resultType = "date";
+	} else if (value.kind === "word" && !Number.isNaN(Number(value.value))) {
+		resultType = "number";
+	} else {
+		resultType = "string";
+	}
+
+	const operators = TYPE_OPERATORS[resultType === "string" ? "rich_text" : resultType];
+	if (!operators[operator]) {
+		throw new QueryExpressionError(`Operator "${operator}" can't be used with the formula "${name}" and value ${value ? `"${value.value}"` : ""}`);
+	}
+	return {
+		property: name,
+		formula: { [resultType]: { [operators[operator]]: value ? parseValue(resultType, name, value) : true } },
+	};
+}
+
+// Notion only takes IDs for people and relations, so other values are looked up
+async function resolveReference(name: string, property: DatabaseSchema[string], raw: string, resolve?: ReferenceResolver): Promise<string> {
+	if (UUID.test(raw)) {
+		return raw;
+	}
+	if (!resolve) {
+		throw new QueryExpressionError(`"${name}" is a ${property.type} property; "${raw}" is not an ID`);
+	}
+	try {
+		return await resolve(property, raw);
+	} catch (error) {
+		if (error instanceof ToolError && error.code === "validation") {
+			throw new QueryExpressionError(`"${name}": ${error.message}`);
+		}
+		throw error;
+	}
+}
+
+async function compileCondition(condition: Condition, schema: DatabaseSchema, resolve?: ReferenceResolver): Promise<any> {
+	const [name, property] = findProperty(schema, condition.property);
+	const type = property.type;
+
+	if (type === "formula") {
+		return compileFormula(name, condition);
+	}
+
+	const operators = TYPE_OPERATORS[type];
+	if (!operators) {
+		throw new QueryExpressionError(`Filtering on "${name}" (${type} property) is not supported`);
+	}
+	const comparison = operators[condition.operator];
+	if (!comparison) {
+		throw new QueryExpressionError(
+			`Operator "${condition.operator}" can't be used with "${name}" (${type} property). Allowed: ${Object.keys(operators).join(", ")}`,
+		);
+	}
+
+	let value = condition.value
+		? parseValue(type, name, condition.value, property[type]?.options)
+		: true;
+	if (condition.value && REFERENCE_TYPES.has(type)) {
+		value = await resolveReference(name, property, value, resolve);
+	}
+	return { property: name, [type]: { [comparison]: value } };
+}
+
+// Notion allows compound filters inside compound filters at most two levels deep
+const MAX_FILTER_NESTING = 2;
+
+async function compileNode(node: Node, schema: DatabaseSchema, depth: number, resolve?: ReferenceResolver): Promise<any> {
+	if (node.kind === "condition") {
+		return compileCondition(node.condition, schema, resolve);
+	}
+	if (depth > MAX_FILTER_NESTING) {
+		throw new QueryExpressionError(`Filters can nest "and"/"or" groups at most ${MAX_FILTER_NESTING} levels deep`);
+	}
+
+	// (a and b) and c is flattened into a single "and"
+	const children = node.children.flatMap((child) => (child.kind === node.kind ? child.children : [child]));
+	return { [node.kind]: await Promise.all(children.map((child) => compileNode(child, schema, depth + 1, resolve))) };
+}
+
+/**
+ * Compile a filter expression into a Notion filter object for the given database schema.
+ * People and related pages are looked up with `resolve`; without it they must be given by ID.
+ */
+export async function compileFilter(expression: string, schema: DatabaseSchema, resolve?: ReferenceResolver): Promise<any> {
+	const tokens = tokenize(expression);
+	if (tokens.length === 0) {
+		throw new QueryExpressionError("The filter expression is empty");
+	}
+	return compileNode(new Parser(tokens).parse(), schema, 0, resolve);
+}
+
+/**
+ * Compile sorts like "Due desc, Name" (or a list of such terms) into Notion sort objects.
+ * created_time / last_edited_time sort by the page timestamps unless a property has that name.
+ */
+export function compileSorts(sorts: string | string[], schema: DatabaseSchema): any[] {
+	const terms = (Array.isArray(sorts) ? sorts : [sorts])
+		.flatMap((term) => term.split(","))
+		.map((term) => term.trim())
+		.filter(Boolean);
+
+	return terms.map((term) => {
+		const match = term.match(/^(.*?)(?:\s+(asc|ascending|desc|descending))?$/i)!;
+		const name = match[1].replace(/^(["'])(.*)\1$/, "$2");
+		const direction = match[2]?.toLowerCase().startsWith("desc") ? "descending" : "ascending";
+
+		if ((name === "created_time" || name === "last_edited_time") && !schema[name]) {
+			return { timestamp: name, direction };
+		}
+		const [property] = findProperty(schema, name);
+		return { property, direction };
+	});
+}
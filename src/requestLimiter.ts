@@ -0,0 +1,214 @@
+// Pace and retry Notion API requests. Notion allows an average of three requests per second per
+// integration and answers bursts above that with 429 rate_limited, and occasionally fails with
+// 5xx errors. Every request waits for a token from a token bucket and a concurrency slot; 429s are
+// retried after Retry-After, and server errors and timeouts after an exponential backoff with
+// jitter (only for requests that are safe to repeat).
+
+import { APIErrorCode, Client, ClientErrorCode, isNotionClientError } from "@notionhq/client";
+
+type ClientOptions = NonNullable<ConstructorParameters<typeof Client>[0]>;
+
+export interface RequestLimiterOptions {
+	requestsPerSecond?: number;
+	// Requests that may be sent at once after an idle period
+	burst?: number;
+	maxConcurrent?: number;
+	maxRetries?: number;
+	// First backoff delay in ms; doubles with every retry, up to maxDelay
+	baseDelay?: number;
+	maxDelay?: number;
+	// Injectable for tests
+	now?: () => number;
+	sleep?: (ms: number) => Promise<void>;
+	random?: () => number;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class TokenBucket {
+	private tokens: number;
+	private updatedAt: number;
+	private heldUntil = 0;
+	// Waiters are served in order
+	private queue: Promise<void> = Promise.resolve();
+
+	constructor(
+		private readonly rate: number,
+		private readonly capacity: number,
+		private readonly now: () => number = Date.now,
+		private readonly sleep: (ms: number) => Promise<void> = defaultSleep,
+	) {
+		this.tokens = capacity;
+		this.updatedAt = now();
+	}
+
+	take(): Promise<void> {
+		const turn = this.queue.then(async () => {
+			while (true) {
+				const now = this.now();
+				if (now < this.heldUntil) {
+					await this.sleep(this.heldUntil - now);
+					continue;
+				}
+				this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.rate);
+				this.updatedAt = now;
+				if (this.tokens >= 1) {
+					this.tokens -= 1;
+					return;
+				}
+				await this.sleep(Math.ceil(((1 - this.tokens) / this.rate) * 1000));
+			}
+		});
+		this.queue = turn;
+		return turn;
+	}
+
+	// Hand out no tokens for `ms`, e.g. while Notion asks us to back off
+	hold(ms: number): void {
+		this.heldUntil = Math.max(this.heldUntil, this.now() + ms);
+		this.tokens = 0;
+	}
+}
+
+class Semaphore {
+	private waiters: Array<() => void> = [];
+	private active = 0;
+
+	constructor(private readonly limit: number) {}
+
+	async acquire(): Promise<void> {
+		if (this.active < this.limit) {
+			this.active++;
+			return;
+		}
+		await new Promise<void>((resolve) => this.waiters.push(resolve));
+	}
+
+	release(): void {
+		const next = this.waiters.shift();
+		if (next) {
+			next();
+		} else {
+			this.active--;
+		}
+	}
+}
+
+function retryAfterMs(error: any): number | undefined {
+	const value = error?.headers?.get?.("retry-after");
+	const seconds = Number(value);
+	return value && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+// Whether a failed request may be sent again, and whether it was a rate limit
+function classify(error: unknown): "rate_limited" | "transient" | "permanent" {
+	if (isNotionClientError(error)) {
+		if (error.code === APIErrorCode.RateLimited) return "rate_limited";
+		if (error.code === ClientErrorCode.RequestTimeout) return "transient";
+		if (error.code === APIErrorCode.InternalServerError || error.code === APIErrorCode.ServiceUnavailable) return "transient";
+		const status = (error as { status?: number }).status;
+		return status !== undefined && [500, 502, 503, 504].includes(status) ? "transient" : "permanent";
+	}
+	// Network failures from fetch (connection reset, DNS, ...)
+	const code = (error as { code?: string })?.code;
+	return typeof code === "string" && /^(ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|EPIPE|UND_ERR_\w+)$/.test(code) ? "transient" : "permanent";
+}
+
+// Requests that can be repeated without side effects if the first attempt did go through.
+// Appending children (PATCH .../children) and creating pages, databases and comments can't.
+export function isIdempotent(method: string, path: string): boolean {
+	switch (method.toLowerCase()) {
+		case "get":
+		case "delete":
+			return true;
+		case "patch":
+			return !path.endsWith("/children");
+		case "post":
+			return path === "search" || /^databases\/[^/]+\/query$/.test(path);
+		default:
+			return false;
+	}
+}
+
+export class RequestLimiter {
+	private readonly bucket: TokenBucket;
+	private readonly slots: Semaphore;
+	private readonly maxRetries: number;
+	private readonly baseDelay: number;
+	private readonly maxDelay: number;
+	private readonly sleep: (ms: number) => Promise<void>;
+	private readonly random: () => number;
+
+	constructor({
+		requestsPerSecond = 3,
+		burst = 3,
+		maxConcurrent = 3,
+		maxRetries = 5,
+		baseDelay = 500,
+		maxDelay = 30_000,
+		now = Date.now,
+		sleep = defaultSleep,
+		random = Math.random,
+	}: RequestLimiterOptions = {}) {
+		this.bucket = new TokenBucket(requestsPerSecond, burst, now, sleep);
+		this.slots = new Semaphore(maxConcurrent);
+		this.maxRetries = maxRetries;
+		this.baseDelay = baseDelay;
+		this.maxDelay = maxDelay;
+		this.sleep = sleep;
+		this.random = random;
+	}
+
+	// Backoff for the given retry (0-based): half the exponential delay plus random jitter
+	backoff(retry: number): number {
+		const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** retry);
+		return Math.round(delay / 2 + this.random() * (delay / 2));
+	}
+
+	async run<T>(task: () => Promise<T>, { idempotent = true, label = "request" }: { idempotent?: boolean; label?: string } = {}): Promise<T> {
+		for (let retry = 0; ; retry++) {
+			await this.bucket.take();
+			await this.slots.acquire();
+			let failure: unknown;
+			try {
+				return await task();
+			} catch (error) {
+				failure = error;
+			} finally {
+				this.slots.release();
+			}
+
+			const kind = classify(failure);
+			if (retry >= this.maxRetries || kind === "permanent" || (kind === "transient" && !idempotent)) {
+				throw failure;
+			}
+			const delay = kind === "rate_limited" ? retryAfterMs(failure) ?? this.backoff(retry) : this.backoff(retry);
+			if (kind === "rate_limited") {
+				// The limit is per integration, so every other request waits too
+				this.bucket.hold(delay);
+			}
+			console.error(`Retrying ${label} in ${delay}ms (${kind}, attempt ${retry + 2} of ${this.maxRetries + 1})`);
+			await this.sleep(delay);
+		}
+	}
+}
+
+/**
+ * A Notion client whose requests all go through a RequestLimiter.
+ */
+export class RateLimitedClient extends Client {
+	private readonly limiter: RequestLimiter;
+
+	constructor(options: ClientOptions & { limiter?: RequestLimiter } = {}) {
+		const { limiter, ...clientOptions } = options;
+		super(clientOptions);
+		this.limiter = limiter ?? new RequestLimiter();
+	}
+
+	override request<ResponseBody>(args: Parameters<Client["request"]>[0]): Promise<ResponseBody> {
+		return this.limiter.run(() => super.request<ResponseBody>(args), {
+			idempotent: isIdempotent(args.method, args.path),
+			label: `${args.method.toUpperCase()} ${args.path}`,
+		});
+	}
+}
@@ -0,0 +1,99 @@
+// Local snapshots of pages, saved before this server changes them, so the changes can be reviewed
+// and reverted (Notion's own page history isn't available through the API). Each snapshot is a
+// JSON file under <dir>/<page ID>/, named so that they sort oldest first; only the latest
+// `maxPerPage` snapshots of a page are kept.
+
+import { randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { normalizeId } from "./ancestry.js";
+import { NotionBlock } from "./blocksToMarkdown.js";
+import { ToolError } from "./toolErrors.js";
+
+export interface PageSnapshot {
+	id: string;
+	pageId: string;
+	takenAt: string;
+	// The change the snapshot was taken before, e.g. "update_page (replace)"
+	reason: string;
+	// Page properties as returned by pages.retrieve
+	properties: Record<string, any>;
+	// The page's content, with nested blocks attached as `children`
+	blocks: NotionBlock[];
+}
+
+export type SnapshotSummary = Omit<PageSnapshot, "properties" | "blocks"> & { blockCount: number };
+
+// Snapshot IDs are the time taken plus a random suffix, e.g. 2026-01-31T12-00-00-000Z-a1b2
+const SNAPSHOT_ID = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z-[0-9a-f]{4}$/;
+
+function countBlocks(blocks: NotionBlock[]): number {
+	return blocks.reduce((count, block) => count + 1 + countBlocks(block.children || []), 0);
+}
+
+export class SnapshotStore {
+	constructor(private readonly dir: string, private readonly maxPerPage = 50) {}
+
+	// IDs become paths, so anything but a page ID is refused rather than let out of `dir`
+	private pageDir(pageId: string): string {
+		const id = normalizeId(pageId);
+		if (!/^[0-9a-f]{32}$/.test(id)) {
+			throw new ToolError("validation", `Invalid page ID: ${pageId}`, "Pass the page's 32-character ID, with or without dashes.");
+		}
+		return join(this.dir, id);
+	}
+
+	private async files(pageId: string): Promise<string[]> {
+		try {
+			return (await readdir(this.pageDir(pageId))).filter((file) => file.endsWith(".json")).sort();
+		} catch (error: any) {
+			if (error.code === "ENOENT") return [];
+			throw error;
+		}
+	}
+
+	async save(snapshot: Omit<PageSnapshot, "id" | "takenAt">, now = new Date()): Promise<PageSnapshot> {
+		const takenAt = now.toISOString();
+		const id = `${takenAt.replace(/[:.]/g, "-")}-${randomBytes(2).toString("hex")}`;
+		const saved: PageSnapshot = { id, takenAt, ...snapshot };
+
+		await mkdir(this.pageDir(snapshot.pageId), { recursive: true });
+		await writeFile(join(this.pageDir(snapshot.pageId), `${id}.json`), JSON.stringify(saved));
+
+		const files = await this.files(snapshot.pageId);
+		for (const file of files.slice(0, Math.max(0, files.length - this.maxPerPage))) {
+			await rm(join(this.pageDir(snapshot.pageId), file), { force: true });
+		}
+		return saved;
+	}
+
+	// Snapshots of a page, newest first
+	async list(pageId: string): Promise<SnapshotSummary[]> {
+		const summaries: SnapshotSummary[] = [];
+		for (const file of (await this.files(pageId)).reverse()) {
+			const { properties: _, blocks, ...summary } = await this.read(pageId, file);
+			summaries.push({ ...summary, blockCount: countBlocks(blocks) });
+		}
+		return summaries;
+	}
+
+	async load(pageId: string, id: string): Promise<PageSnapshot> {
+		if (!SNAPSHOT_ID.test(id)) {
+			throw new ToolError("validation", `Invalid snapshot ID: ${id}`, "Use list_page_history to see the page's snapshots.");
+		}
+		const files = await this.files(pageId);
+		if (!files.includes(`${id}.json`)) {
+			throw new ToolError("not_found", `No snapshot ${id} of page ${pageId}`, "Use list_page_history to see the page's snapshots.");
+		}
+		return this.read(pageId, `${id}.json`);
+	}
+
+	async latest(pageId: string): Promise<PageSnapshot | undefined> {
+		const files = await this.files(pageId);
+		return files.length > 0 ? this.read(pageId, files[files.length - 1]) : undefined;
+	}
+
+	private async read(pageId: string, file: string): Promise<PageSnapshot> {
+		return JSON.parse(await readFile(join(this.pageDir(pageId), file), "utf8"));
+	}
+}
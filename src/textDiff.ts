@@ -0,0 +1,60 @@
+// Line diffs for showing what changed between two renderings of a page: lines only in the old
+// text start with "-", lines only in the new text with "+", and unchanged lines with two spaces.
+// Long unchanged stretches are cut down to `context` lines around each change.
+
+type DiffLine = { kind: " " | "-" | "+"; text: string };
+
+// Longest common subsequence over lines, walked back into a list of kept, removed and added lines
+function diff(before: string[], after: string[]): DiffLine[] {
+	const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+	for (let i = before.length - 1; i >= 0; i--) {
+		for (let j = after.length - 1; j >= 0; j--) {
+			lengths[i][j] = before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < before.length || j < after.length) {
+		if (i < before.length && j < after.length && before[i] === after[j]) {
+			lines.push({ kind: " ", text: before[i++] });
+			j++;
+		} else if (i < before.length && (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+			lines.push({ kind: "-", text: before[i++] });
+		} else {
+			lines.push({ kind: "+", text: after[j++] });
+		}
+	}
+	return lines;
+}
+
+/**
+ * A line diff of `before` and `after`, or an empty string if they are the same.
+ */
+export function diffLines(before: string, after: string, context = 3): string {
+	const lines = diff(before.split("\n"), after.split("\n"));
+	if (lines.every((line) => line.kind === " ")) {
+		return "";
+	}
+
+	const changed = lines.map((line, index) => (line.kind !== " " ? index : -1)).filter((index) => index >= 0);
+	const output: string[] = [];
+	let skipped = 0;
+	lines.forEach((line, index) => {
+		const nearChange = changed.some((position) => Math.abs(position - index) <= context);
+		if (!nearChange) {
+			skipped++;
+			return;
+		}
+		if (skipped > 0) {
+			output.push(`@@ ${skipped} unchanged lines @@`);
+			skipped = 0;
+		}
+		output.push(`${line.kind} ${line.text}`);
+	});
+	if (skipped > 0) {
+		output.push(`@@ ${skipped} unchanged lines @@`);
+	}
+	return output.join("\n");
+}
@@ -0,0 +1,92 @@
+// Turn failures into tool results that clients can recognize: `isError: true`, a machine-readable
+// code and a message with a hint on how to fix the problem, for Notion API errors, argument
+// validation errors and our own errors alike.
+
+import { APIErrorCode, ClientErrorCode, isNotionClientError } from "@notionhq/client";
+import { ZodError } from "zod";
+
+export type ToolErrorCode = "not_found" | "unauthorized" | "forbidden" | "validation" | "rate_limited" | "conflict" | "unavailable" | "internal";
+
+export interface ErrorDetails {
+	code: ToolErrorCode;
+	message: string;
+	hint?: string;
+}
+
+// An error a handler raises itself, with the code to report it under
+export class ToolError extends Error {
+	constructor(public readonly code: ToolErrorCode, message: string, public readonly hint?: string) {
+		super(message);
+		this.name = "ToolError";
+	}
+}
+
+const NOTION_ERRORS: Record<string, Omit<ErrorDetails, "message">> = {
+	[APIErrorCode.ObjectNotFound]: {
+		code: "not_found",
+		hint: "Check the ID, and make sure the page or database is shared with the integration (••• menu → Connections). Pages inherit access from their parent.",
+	},
+	[APIErrorCode.Unauthorized]: {
+		code: "unauthorized",
+		hint: "Check that NOTION_API_KEY is a valid integration token.",
+	},
+	[APIErrorCode.RestrictedResource]: {
+		code: "unauthorized",
+		hint: "The integration lacks a capability this needs (reading, updating or inserting content, comments or user information). Enable it in the integration's settings.",
+	},
+	[APIErrorCode.RateLimited]: {
+		code: "rate_limited",
+		hint: "Notion kept rate limiting the request after several retries. Wait a minute and try again, with fewer requests at once.",
+	},
+	[APIErrorCode.ConflictError]: {
+		code: "conflict",
+		hint: "The item was changed by someone else at the same time. Read it again and retry.",
+	},
+	[APIErrorCode.ValidationError]: { code: "validation" },
+	[APIErrorCode.InvalidJSON]: { code: "validation" },
+	[APIErrorCode.InvalidRequest]: { code: "validation" },
+	[APIErrorCode.InvalidRequestURL]: { code: "validation", hint: "Check that the IDs are valid Notion IDs." },
+	[APIErrorCode.InternalServerError]: { code: "unavailable", hint: "Notion had an internal error. Try again shortly." },
+	[APIErrorCode.ServiceUnavailable]: { code: "unavailable", hint: "Notion is temporarily unavailable. Try again shortly." },
+	[ClientErrorCode.RequestTimeout]: { code: "unavailable", hint: "Notion took too long to answer. Try again shortly." },
+	[ClientErrorCode.ResponseError]: { code: "unavailable", hint: "Notion returned an unexpected response. Try again shortly." },
+};
+
+function describeIssues(error: ZodError): string {
+	return error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message)).join("; ");
+}
+
+export function describeError(error: unknown): ErrorDetails {
+	if (error instanceof ToolError) {
+		return { code: error.code, message: error.message, hint: error.hint };
+	}
+	if (error instanceof ZodError) {
+		return { code: "validation", message: `Invalid arguments: ${describeIssues(error)}`, hint: "Check the arguments against the tool's input schema." };
+	}
+	if (isNotionClientError(error)) {
+		const known = NOTION_ERRORS[error.code] ?? { code: "internal" };
+		return { ...known, message: error.message };
+	}
+	return { code: "internal", message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * A failed tool result. `context` says what was being done ("Error creating page");
+ * `details` is appended after the hint (e.g. what was rolled back).
+ */
+export function errorResult(error: unknown, context: string, details?: string) {
+	const { code, message, hint } = describeError(error);
+	console.error(`${context} (${code}): ${message}`);
+
+	const text = [`${context} (${code}): ${message}`, hint && `Hint: ${hint}`, details].filter(Boolean).join("\n");
+	return {
+		content: [
+			{
+				type: "text" as const,
+				text,
+			},
+		],
+		structuredContent: { error: { code, message, ...(hint ? { hint } : {}) } },
+		isError: true,
+	};
+}
@@ -0,0 +1,94 @@
+// mergeBlocks against a fake client that records the block requests it is sent.
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Client } from "@notionhq/client";
+import { BlockChangeLog } from "../src/blockChanges.js";
+import { mergeBlocks } from "../src/blockMerge.js";
+import { fromBlockRequest } from "../src/blockRequests.js";
+import { markdownToBlocks } from "../src/markdownToBlocks.js";
+
+function fakeClient(): { client: Client; calls: Array<[string, any]> } {
+	const calls: Array<[string, any]> = [];
+	let created = 0;
+	const client = {
+		blocks: {
+			children: {
+				async append(args: any) {
+					calls.push(["append", args]);
+					return { results: args.children.map(() => ({ id: `new${++created}` })) };
+				},
+			},
+			async update(args: any) {
+				calls.push(["update", args]);
+				return {};
+			},
+			async delete(args: any) {
+				calls.push(["delete", args]);
+				return {};
+			},
+		},
+	};
+	return { client: client as unknown as Client, calls };
+}
+
+// Existing blocks with IDs b1, b2, ... from Markdown
+function existing(markdown: string) {
+	return markdownToBlocks(markdown).map((request, index) => fromBlockRequest(request, `b${index + 1}`));
+}
+
+describe("mergeBlocks", () => {
+	it("leaves unchanged content alone", async () => {
+		const { client, calls } = fakeClient();
+		const stats = await mergeBlocks(new BlockChangeLog(client), "page", existing("# Title\nText"), markdownToBlocks("# Title\nText"));
+		assert.deepEqual(calls, []);
+		assert.deepEqual(stats, { kept: 2, updated: 0, inserted: 0, deleted: 0, misplaced: 0 });
+	});
+
+	it("updates changed blocks in place", async () => {
+		const { client, calls } = fakeClient();
+		const stats = await mergeBlocks(new BlockChangeLog(client), "page", existing("# Title\nText"), markdownToBlocks("# Title\nNew text"));
+		assert.deepEqual(calls.map(([method, args]) => [method, args.block_id]), [["update", "b2"]]);
+		assert.deepEqual(stats, { kept: 1, updated: 1, inserted: 0, deleted: 0, misplaced: 0 });
+	});
+
+	it("inserts after the preceding block", async () => {
+		const { client, calls } = fakeClient();
+		const stats = await mergeBlocks(new BlockChangeLog(client), "page", existing("One\nThree"), markdownToBlocks("One\nTwo\nThree"));
+		assert.deepEqual(calls.map(([method, args]) => [method, args.after]), [["append", "b1"]]);
+		assert.deepEqual(stats, { kept: 2, updated: 0, inserted: 1, deleted: 0, misplaced: 0 });
+	});
+
+	it("keeps an unchanged first block and reports blocks inserted before it as misplaced", async () => {
+		const { client, calls } = fakeClient();
+		const stats = await mergeBlocks(new BlockChangeLog(client), "page", existing("Two\nThree"), markdownToBlocks("One\nTwo\nThree"));
+		assert.deepEqual(calls.map(([method, args]) => [method, args.after]), [["append", "b1"]]);
+		assert.deepEqual(stats, { kept: 2, updated: 0, inserted: 1, deleted: 0, misplaced: 1 });
+	});
+
+	it("recreates a changed first block after blocks inserted before it", async () => {
+		const { client, calls } = fakeClient();
+		const stats = await mergeBlocks(new BlockChangeLog(client), "page", existing("# Old"), markdownToBlocks("Intro\n# New"));
+		assert.deepEqual(calls.map(([method, args]) => [method, args.block_id, args.after]), [
+			["append", "page", "b1"],
+			["delete", "b1", undefined],
+			["append", "page", "new1"],
+		]);
+		assert.deepEqual(stats, { kept: 0, updated: 0, inserted: 2, deleted: 1, misplaced: 0 });
+	});
+
+	it("keeps a changed first block that holds a child page", async () => {
+		const { client, calls } = fakeClient();
+		const toggle = (text: string) => ({ object: "block", type: "toggle", toggle: { rich_text: [{ type: "text", text: { content: text } }] } });
+		const first = fromBlockRequest(toggle("Old"), "b1");
+		first.has_children = true;
+		first.children = [{ object: "block", id: "c1", type: "child_page", child_page: { title: "Sub" }, has_children: false }];
+
+		const stats = await mergeBlocks(new BlockChangeLog(client), "page", [first], [...markdownToBlocks("Intro"), toggle("New")]);
+		assert.deepEqual(calls.map(([method, args]) => [method, args.block_id, args.after]), [
+			["append", "page", "b1"],
+			["update", "b1", undefined],
+		]);
+		assert.deepEqual(stats, { kept: 1, updated: 1, inserted: 1, deleted: 0, misplaced: 1 });
+	});
+});
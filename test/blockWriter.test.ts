@@ -0,0 +1,79 @@
+// appendBlocks against a fake client that checks each request against the Notion API limits.
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Client } from "@notionhq/client";
+import { appendBlocks, countBlocks, MAX_BLOCKS_PER_REQUEST, MAX_CHILDREN_PER_REQUEST, MAX_RICH_TEXT_ITEMS } from "../src/blockWriter.js";
+
+function paragraph(text: string, children: any[] = []): any {
+	return { object: "block", type: "paragraph", paragraph: { rich_text: [{ type: "text", text: { content: text } }], ...(children.length > 0 ? { children } : {}) } };
+}
+
+function toggle(text: string, children: any[]): any {
+	return { object: "block", type: "toggle", toggle: { rich_text: [{ type: "text", text: { content: text } }], children } };
+}
+
+// Every array within the limits, as the API checks them
+function checkLimits(blocks: any[], depth = 0): void {
+	assert.ok(blocks.length <= MAX_CHILDREN_PER_REQUEST, `${blocks.length} children in one array`);
+	for (const block of blocks) {
+		assert.ok((block[block.type].rich_text ?? []).length <= MAX_RICH_TEXT_ITEMS, "too many rich text items");
+		const children = block[block.type].children ?? [];
+		if (children.length > 0) {
+			assert.ok(depth < 2, "nested too deeply");
+			checkLimits(children, depth + 1);
+		}
+	}
+}
+
+function fakeClient(): { client: Client; requests: any[] } {
+	const requests: any[] = [];
+	let created = 0;
+	const client = {
+		blocks: {
+			children: {
+				async append(args: any) {
+					assert.ok(countBlocks(args.children) <= MAX_BLOCKS_PER_REQUEST, `${countBlocks(args.children)} blocks in one request`);
+					checkLimits(args.children);
+					requests.push(args);
+					return { results: args.children.map(() => ({ id: `new${++created}` })) };
+				},
+			},
+		},
+	};
+	return { client: client as unknown as Client, requests };
+}
+
+describe("appendBlocks", () => {
+	it("sends small content in one request", async () => {
+		const { client, requests } = fakeClient();
+		const result = await appendBlocks(client, "page", [paragraph("One"), toggle("Two", [paragraph("Three")])]);
+		assert.equal(requests.length, 1);
+		assert.deepEqual(result, { written: 3, blockIds: ["new1", "new2"] });
+	});
+
+	it("splits a block whose subtree is over the per-request block limit", async () => {
+		const { client, requests } = fakeClient();
+		const items = Array.from({ length: 100 }, (_, i) => paragraph(`Item ${i}`, Array.from({ length: 20 }, (_, j) => paragraph(`${i}.${j}`))));
+		const result = await appendBlocks(client, "page", [toggle("Big", items)]);
+		assert.equal(result.written, 2101);
+		assert.deepEqual(result.blockIds, ["new1"]);
+		assert.ok(requests.length > 1);
+		// The deferred items go under the toggle, in order
+		const deferred = requests.slice(1).filter((request) => request.block_id === "new1").flatMap((request) => request.children);
+		const inline = requests[0].children[0].toggle.children;
+		assert.deepEqual([...inline, ...deferred].map((item: any) => item.paragraph.rich_text[0].text.content), items.map((item) => item.paragraph.rich_text[0].text.content));
+	});
+
+	it("splits rich text over the item limit into several blocks", async () => {
+		const { client, requests } = fakeClient();
+		const richText = Array.from({ length: 250 }, (_, i) => ({ type: "text", text: { content: `${i} ` }, annotations: { bold: i % 2 === 0 } }));
+		const block = { object: "block", type: "paragraph", paragraph: { rich_text: richText, children: [paragraph("Nested")] } };
+		const result = await appendBlocks(client, "page", [block]);
+		assert.equal(result.blockIds.length, 3);
+		const sent = requests[0].children;
+		assert.deepEqual(sent.map((part: any) => part.paragraph.rich_text.length), [100, 100, 50]);
+		assert.deepEqual(sent.flatMap((part: any) => part.paragraph.rich_text), richText);
+		assert.deepEqual(sent.map((part: any) => (part.paragraph.children ?? []).length), [0, 0, 1]);
+	});
+});
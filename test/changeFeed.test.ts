@@ -0,0 +1,171 @@
+// The change feed and poller against a fake Notion client holding a list of pages, some of
+// them rows of one database.
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ChangeClient, ChangeFeed, ChangePoller, decodeCursor } from "../src/changeFeed.js";
+
+const DATABASE_ID = "db";
+
+function minute(index: number): string {
+	return new Date(Date.UTC(2026, 0, 1, 12, index)).toISOString();
+}
+
+function page(id: string, time: string, parent: any = { type: "workspace", workspace: true }): any {
+	return {
+		object: "page",
+		id,
+		url: `https://www.notion.so/${id}`,
+		last_edited_time: time,
+		last_edited_by: { id: "user" },
+		parent,
+		properties: { Name: { type: "title", title: [{ plain_text: `Page ${id}` }] } },
+	};
+}
+
+function row(id: string, time: string): any {
+	return page(id, time, { type: "database_id", database_id: DATABASE_ID });
+}
+
+function fakeClient(items: any[]): ChangeClient & { searches: number } {
+	const byId = (id: string) => items.find((item) => item.id === id);
+	const client = {
+		searches: 0,
+		async search({ start_cursor }: any) {
+			client.searches++;
+			const sorted = [...items].sort((a, b) => b.last_edited_time.localeCompare(a.last_edited_time));
+			const start = Number(start_cursor ?? 0);
+			const results = sorted.slice(start, start + 100);
+			const hasMore = start + 100 < sorted.length;
+			return { results, has_more: hasMore, next_cursor: hasMore ? String(start + 100) : null };
+		},
+		pages: {
+			async retrieve({ page_id }: any) {
+				return byId(page_id) ?? Promise.reject(new Error("Not found"));
+			},
+		},
+		databases: {
+			async retrieve({ database_id }: any) {
+				if (database_id !== DATABASE_ID) throw new Error("Not a database");
+				return { object: "database", id: DATABASE_ID, parent: { type: "workspace", workspace: true } };
+			},
+			async query({ database_id, filter }: any) {
+				const results = items
+					.filter((item) => item.parent.database_id === database_id && item.last_edited_time >= filter.last_edited_time.on_or_after)
+					.sort((a, b) => a.last_edited_time.localeCompare(b.last_edited_time));
+				return { results, has_more: false, next_cursor: null };
+			},
+		},
+		blocks: {
+			async retrieve() {
+				throw new Error("Not found");
+			},
+		},
+		users: {
+			async retrieve() {
+				return { name: "Ada" };
+			},
+		},
+	};
+	return client;
+}
+
+describe("ChangeFeed.listChanges", () => {
+	it("lists changes since a time, oldest first", async () => {
+		const feed = new ChangeFeed(fakeClient([page("a", minute(3)), page("b", minute(1)), page("c", minute(2)), page("old", minute(0))]));
+		const { changes, skippedUntil } = await feed.listChanges({ since: minute(1) });
+		assert.deepEqual(changes.map((change) => change.id), ["b", "c", "a"]);
+		assert.equal(changes[0].title, "Page b");
+		assert.equal(changes[0].lastEditedBy, "Ada");
+		assert.equal(skippedUntil, undefined);
+	});
+
+	it("doesn't report changes again after the cursor", async () => {
+		const items = [page("a", minute(1)), page("b", minute(1)), page("c", minute(2))];
+		const feed = new ChangeFeed(fakeClient(items));
+		const first = await feed.listChanges({ since: minute(0), limit: 2 });
+		assert.deepEqual(first.changes.map((change) => change.id), ["a", "b"]);
+		assert.deepEqual(decodeCursor(first.cursor), { time: minute(1), ids: ["a", "b"] });
+
+		const second = await feed.listChanges({ since: first.cursor });
+		assert.deepEqual(second.changes.map((change) => change.id), ["c"]);
+
+		// Another edit within the minute already reported is a new change too
+		items.push(page("d", minute(2)));
+		const third = await feed.listChanges({ since: second.cursor });
+		assert.deepEqual(third.changes.map((change) => change.id), ["d"]);
+		assert.deepEqual(decodeCursor(third.cursor), { time: minute(2), ids: ["c", "d"] });
+	});
+
+	it("keeps the cursor when nothing changed", async () => {
+		const feed = new ChangeFeed(fakeClient([page("a", minute(1))]));
+		const { changes, cursor } = await feed.listChanges({ since: minute(2) });
+		assert.deepEqual(changes, []);
+		assert.deepEqual(decodeCursor(cursor), { time: minute(2), ids: [] });
+	});
+
+	it("rejects invalid timestamps and cursors", async () => {
+		const feed = new ChangeFeed(fakeClient([]));
+		await assert.rejects(feed.listChanges({ since: "2026-13-99" }), { name: "ToolError", code: "validation", message: /Invalid timestamp/ });
+		await assert.rejects(feed.listChanges({ since: "yesterday" }), { name: "ToolError", code: "validation", message: /Invalid cursor/ });
+	});
+
+	it("lists rows of a database root", async () => {
+		const client = fakeClient([row("r1", minute(2)), page("a", minute(3)), row("r2", minute(1))]);
+		const feed = new ChangeFeed(client);
+		const { changes } = await feed.listChanges({ since: minute(0), rootId: DATABASE_ID });
+		assert.deepEqual(changes.map((change) => [change.id, change.databaseId]), [["r2", DATABASE_ID], ["r1", DATABASE_ID]]);
+		assert.equal(client.searches, 0);
+	});
+
+	it("lists pages nested under a page root", async () => {
+		const items = [
+			page("root", minute(0)),
+			page("child", minute(1), { type: "page_id", page_id: "root" }),
+			page("grandchild", minute(2), { type: "page_id", page_id: "child" }),
+			page("elsewhere", minute(3)),
+		];
+		const feed = new ChangeFeed(fakeClient(items));
+		const { changes } = await feed.listChanges({ since: minute(1), rootId: "root" });
+		assert.deepEqual(changes.map((change) => change.id), ["child", "grandchild"]);
+	});
+
+	it("reports the changes a cut-short search skipped", async () => {
+		const items = Array.from({ length: 1200 }, (_, index) => page(`p${index}`, minute(index)));
+		const feed = new ChangeFeed(fakeClient(items));
+		const { changes, cursor, skippedUntil } = await feed.listChanges({ since: minute(0), limit: 10 });
+
+		// The search scans the 1000 newest items, down to p200
+		assert.equal(skippedUntil, minute(200));
+		assert.deepEqual(changes.map((change) => change.id), ["p200", "p201", "p202", "p203", "p204", "p205", "p206", "p207", "p208", "p209"]);
+		assert.deepEqual(decodeCursor(cursor), { time: minute(209), ids: ["p209"] });
+	});
+});
+
+describe("ChangePoller", () => {
+	it("reports changes after the watermark and backs off while nothing changes", async () => {
+		const items = [page("before", minute(0))];
+		const reported: string[][] = [];
+		const poller = new ChangePoller(new ChangeFeed(fakeClient(items)), ["root"], (_, changes) => {
+			reported.push(changes.map((change) => change.id));
+		}, { minInterval: 1_000, maxInterval: 3_000 });
+		items.push(page("root", minute(0)));
+
+		// The first poll only sets the watermark
+		assert.equal(await poller.poll(new Date(minute(1))), 0);
+		assert.deepEqual(decodeCursor(poller.watermark("root")!), { time: minute(1), ids: [] });
+		assert.equal(poller.interval, 2_000);
+
+		assert.equal(await poller.poll(), 0);
+		assert.equal(poller.interval, 3_000);
+
+		items.push(page("child", minute(2), { type: "page_id", page_id: "root" }), page("other", minute(2)));
+		assert.equal(await poller.poll(), 1);
+		assert.deepEqual(reported, [["child"]]);
+		assert.equal(poller.interval, 1_000);
+		assert.deepEqual(decodeCursor(poller.watermark("root")!), { time: minute(2), ids: ["child"] });
+
+		assert.equal(await poller.poll(), 0);
+		assert.deepEqual(reported, [["child"]]);
+	});
+});
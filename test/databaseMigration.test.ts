@@ -0,0 +1,58 @@
+// planMigration against a small schema as databases.retrieve returns it.
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MigrationError, planMigration, removesData } from "../src/databaseMigration.js";
+
+const current = {
+	Name: { id: "title", type: "title", title: {} },
+	Notes: { id: "n1", type: "rich_text", rich_text: {} },
+	Status: { id: "s1", type: "select", select: { options: [{ id: "o1", name: "Open", color: "green" }] } },
+};
+
+describe("planMigration", () => {
+	it("plans nothing for an unchanged schema", () => {
+		const plan = planMigration(current, { Name: { title: {} }, Notes: { rich_text: {} }, Status: { select: {} } });
+		assert.deepEqual(plan.updates, {});
+	});
+
+	it("adds, renames and removes properties", () => {
+		const plan = planMigration(current, { Name: { title: {} }, Comments: { rich_text: {} }, Due: { date: {} } }, { Notes: "Comments" });
+		assert.deepEqual(plan.updates, { Notes: { name: "Comments" }, Due: { date: {} }, Status: null });
+		assert.equal(removesData(plan), true);
+	});
+
+	it("treats lossy retypes as data loss", () => {
+		const plan = planMigration(current, { Name: { title: {} }, Notes: { number: {} }, Status: { select: {} } });
+		assert.deepEqual(plan.retyped, [{ name: "Notes", from: "rich_text", to: "number", destructive: true }]);
+		assert.equal(removesData(plan), true);
+	});
+
+	it("refuses a new property that takes a renamed property's name", () => {
+		assert.throws(
+			() => planMigration(current, { Name: { title: {} }, Comments: { rich_text: {} }, Notes: { number: {} }, Status: { select: {} } }, { Notes: "Comments" }),
+			MigrationError,
+		);
+	});
+
+	it("refuses to swap two names", () => {
+		assert.throws(
+			() => planMigration(current, { Name: { title: {} }, Notes: { select: {} }, Status: { rich_text: {} } }, { Notes: "Status", Status: "Notes" }),
+			MigrationError,
+		);
+	});
+
+	it("compares relation database IDs with or without dashes", () => {
+		const withRelation = {
+			...current,
+			Project: { id: "r1", type: "relation", relation: { database_id: "0123abcd-0123-4567-89ab-0123456789ab", type: "single_property", single_property: {} } },
+		};
+		const plan = planMigration(withRelation, {
+			Name: { title: {} },
+			Notes: { rich_text: {} },
+			Status: { select: {} },
+			Project: { relation: { database_id: "0123abcd0123456789ab0123456789ab", type: "single_property", single_property: {} } },
+		});
+		assert.deepEqual(plan.updates, {});
+	});
+});
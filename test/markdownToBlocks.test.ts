@@ -0,0 +1,36 @@
+// Each fixture in fixtures/markdown is a Markdown file with the blocks it should convert to
+// next to it as JSON. The blocks must also survive a round trip through blocksToMarkdown.
+
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import { fromBlockRequest } from "../src/blockRequests.js";
+import { blocksToMarkdown } from "../src/blocksToMarkdown.js";
+import { markdownToBlocks } from "../src/markdownToBlocks.js";
+
+const fixtures = new URL("../../test/fixtures/markdown/", import.meta.url);
+
+function readFixture(file: string): string {
+	return readFileSync(new URL(file, fixtures), "utf8");
+}
+
+const names = readdirSync(fixtures).filter((file) => file.endsWith(".md")).map((file) => file.slice(0, -3));
+
+describe("markdownToBlocks", () => {
+	for (const name of names) {
+		it(`converts ${name}.md`, () => {
+			const markdown = readFixture(`${name}.md`).replace(/\n$/, "");
+			assert.deepEqual(markdownToBlocks(markdown), JSON.parse(readFixture(`${name}.json`)));
+		});
+	}
+});
+
+describe("blocksToMarkdown round trip", () => {
+	for (const name of names) {
+		it(`reads back ${name}.md`, () => {
+			const blocks = JSON.parse(readFixture(`${name}.json`));
+			const markdown = blocksToMarkdown(blocks.map((block: any) => fromBlockRequest(block)));
+			assert.deepEqual(markdownToBlocks(markdown), blocks);
+		});
+	}
+});
@@ -0,0 +1,65 @@
+// Filter expressions compiled against a small schema, with a fake lookup for people and relations.
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compileFilter, compileSorts, ReferenceResolver } from "../src/queryExpression.js";
+import { ToolError } from "../src/toolErrors.js";
+
+const schema = {
+	Name: { type: "title", title: {} },
+	Status: { type: "select", select: { options: [{ name: "Done" }, { name: "Open" }] } },
+	Due: { type: "date", date: {} },
+	Owner: { type: "people", people: {} },
+	Project: { type: "relation", relation: { database_id: "projects" } },
+};
+
+const USER_ID = "0123abcd-0123-4567-89ab-0123456789ab";
+const PAGE_ID = "89abcdef-0123-4567-89ab-0123456789ab";
+
+const resolve: ReferenceResolver = async (property, value) => {
+	if (property.type === "people" && value === "alice@example.com") return USER_ID;
+	if (property.type === "relation" && value === "Website") return PAGE_ID;
+	throw new ToolError("validation", `nothing called "${value}"`);
+};
+
+describe("compileFilter", () => {
+	it("compiles conditions and groups", async () => {
+		assert.deepEqual(await compileFilter('Status = "Done" and (Due < 2026-11-01 or Name contains "x")', schema), {
+			and: [
+				{ property: "Status", select: { equals: "Done" } },
+				{ or: [{ property: "Due", date: { before: "2026-11-01" } }, { property: "Name", title: { contains: "x" } }] },
+			],
+		});
+	});
+
+	it("reports unknown select options", async () => {
+		await assert.rejects(compileFilter('Status = "Closed"', schema), { name: "QueryExpressionError", message: /not an option of "Status"/ });
+	});
+
+	it("looks up people and related pages", async () => {
+		assert.deepEqual(await compileFilter('Owner contains "alice@example.com" and Project contains "Website"', schema, resolve), {
+			and: [
+				{ property: "Owner", people: { contains: USER_ID } },
+				{ property: "Project", relation: { contains: PAGE_ID } },
+			],
+		});
+	});
+
+	it("passes IDs through", async () => {
+		assert.deepEqual(await compileFilter(`Owner contains ${USER_ID}`, schema), { property: "Owner", people: { contains: USER_ID } });
+	});
+
+	it("names the property when a person or page can't be found", async () => {
+		await assert.rejects(compileFilter('Owner contains "bob"', schema, resolve), { name: "QueryExpressionError", message: /"Owner": nothing called "bob"/ });
+		await assert.rejects(compileFilter('Project contains "Website"', schema), { name: "QueryExpressionError", message: /"Project" is a relation property; "Website" is not an ID/ });
+	});
+});
+
+describe("compileSorts", () => {
+	it("compiles properties and timestamps", () => {
+		assert.deepEqual(compileSorts("due desc, created_time", schema), [
+			{ property: "Due", direction: "descending" },
+			{ timestamp: "created_time", direction: "ascending" },
+		]);
+	});
+});
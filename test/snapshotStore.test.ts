@@ -0,0 +1,45 @@
+// SnapshotStore in a temporary directory.
+
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { SnapshotStore } from "../src/snapshotStore.js";
+
+const PAGE_ID = "0123abcd-0123-4567-89ab-0123456789ab";
+
+describe("SnapshotStore", () => {
+	let dir: string;
+	before(async () => {
+		dir = await mkdtemp(join(tmpdir(), "snapshots-"));
+	});
+	after(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it("saves, lists and loads snapshots, keeping the latest few", async () => {
+		const store = new SnapshotStore(dir, 2);
+		for (const minute of [1, 2, 3]) {
+			await store.save({ pageId: PAGE_ID, reason: `edit ${minute}`, properties: {}, blocks: [] }, new Date(Date.UTC(2026, 0, 1, 12, minute)));
+		}
+		const history = await store.list(PAGE_ID.replace(/-/g, ""));
+		assert.deepEqual(history.map((snapshot) => snapshot.reason), ["edit 3", "edit 2"]);
+		assert.equal((await store.load(PAGE_ID, history[1].id)).reason, "edit 2");
+		assert.equal((await store.latest(PAGE_ID))?.reason, "edit 3");
+	});
+
+	it("refuses page IDs that aren't IDs", async () => {
+		const store = new SnapshotStore(join(dir, "store"));
+		await writeFile(join(dir, "outside.json"), "{}");
+		await assert.rejects(store.list("../../../tmp/x"), { name: "ToolError", code: "validation" });
+		await assert.rejects(store.list(".."), { name: "ToolError", code: "validation" });
+		await assert.rejects(store.latest(".."), { name: "ToolError", code: "validation" });
+	});
+
+	it("refuses snapshot IDs that aren't snapshot IDs", async () => {
+		const store = new SnapshotStore(dir);
+		await assert.rejects(store.load(PAGE_ID, "../outside"), { name: "ToolError", code: "validation" });
+		await assert.rejects(store.load(PAGE_ID, "2026-01-01T12-00-00-000Z-zzzz"), { name: "ToolError", code: "validation" });
+	});
+});